@@ -0,0 +1,295 @@
+#!/usr/bin/env node
+import { mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname, join, resolve } from 'path'
+import { parseArgs } from 'util'
+import { z } from 'zod'
+import { decodeAuditFile, formatZodError, parseAuditInput } from '../util/audit_input'
+import { auditManifestSchema, PageAuditInput } from '../util/site_audit'
+import { manualReviewFileSchema } from '../util/manual_review'
+import { exemptionsFileSchema } from '../util/exemptions'
+import { waiversFileSchema } from '../util/waivers'
+import { applicabilityProfileSchema } from '../util/applicability'
+import { productFactsSchema } from '../util/timeline'
+import { applyJurisdiction, BASE_JURISDICTION } from '../util/jurisdiction'
+import { loadRegulations } from '../util/regulation_datasets'
+import { assessCompliance, checkCompliancePolicy, compliancePolicySchema } from '../util/assessment'
+import { complianceSchema } from '../util/compliance'
+import { calculateComplianceScore } from '../util/scoring'
+import { regulationsFileSchema } from '../util/workspace_files'
+import { LOCALES, localeSchema } from '../util/i18n'
+import {
+  buildComplianceReport,
+  renderReport,
+  REPORT_FILE_EXTENSIONS,
+  REPORT_FORMATS
+} from '../util/report_renderer'
+import { createEvidenceBundle, verifyEvidenceBundle } from '../util/evidence_bundle'
+
+// Runs the same assessment as the agent's run-comparison, calculate-score and process-results
+// capabilities against files on disk, without an OpenServ workspace.
+//
+// Exit codes: 0 when the results meet the policy (or the bundle verifies), 1 when they do not, 2
+// when the assessment could not run (bad options or input files).
+
+const USAGE = `Usage: eaa-legislator assess [options]
+       eaa-legislator verify <bundle> [--expect <sha256>]
+
+Audits (one of):
+  --audit <file>                 Lighthouse report, audit map, axe-core results, Android ATF
+                                 results (JSON or XML) or XCUITest audit; repeat per page/screen
+  --manifest <file>              audit-manifest.json; page files are relative to it
+
+Regulations:
+  --regulations <file>           regulations.json as produced by fetch-regulations
+  --regulations-version <v>      Bundled dataset version instead (default: latest)
+  --jurisdiction <code>          Member state to assess against (default: EU)
+  --applicability <file>         applicability.json with the product and service types in scope
+  --product-facts <file>         product-facts.json with the contract and terminal dates that decide
+                                 whether a transitional period applies
+  --assessment-date <date>       Date to assess obligations, waivers and exemptions against
+                                 (YYYY-MM-DD, default: today)
+  --manual-review <file>         manual-review.json with tester verdicts
+  --exemptions <file>            exemptions.json with disproportionate burden claims
+  --waivers <file>               waivers.json with accepted findings
+
+Output:
+  --out <dir>                    Where compliance.json, score.json and the report go (default: ./eaa-report)
+  --format <format>              ${REPORT_FORMATS.join(', ')} (default: markdown)
+  --profile <name>               Scoring profile (default: default)
+  --locale <code>                Report language: ${LOCALES.join(', ')} (default: that of the
+                                 regulations, else en)
+  --bundle <file>                Also write an evidence bundle (.tar.gz) with the inputs, outputs
+                                 and their SHA-256 hashes
+
+Verify:
+  --expect <sha256>              Fail unless the bundle manifest has this hash, as printed when the
+                                 bundle was written
+
+Policy:
+  --fail-on <criticalities>      Fail when a requirement of these has failures (non_compliant or
+                                 partially_compliant), e.g. HIGH,MEDIUM, or none (default: HIGH)
+  --min-score <n>                Fail when the score is below n (0-100)
+`
+
+function main(argv: string[]): number {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      audit: { type: 'string', multiple: true },
+      manifest: { type: 'string' },
+      regulations: { type: 'string' },
+      'regulations-version': { type: 'string' },
+      jurisdiction: { type: 'string' },
+      applicability: { type: 'string' },
+      'product-facts': { type: 'string' },
+      'assessment-date': { type: 'string' },
+      'manual-review': { type: 'string' },
+      exemptions: { type: 'string' },
+      waivers: { type: 'string' },
+      out: { type: 'string', default: './eaa-report' },
+      format: { type: 'string', default: 'markdown' },
+      profile: { type: 'string', default: 'default' },
+      locale: { type: 'string' },
+      bundle: { type: 'string' },
+      expect: { type: 'string' },
+      'fail-on': { type: 'string', default: 'HIGH' },
+      'min-score': { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  })
+
+  if (values.help) {
+    console.log(USAGE)
+    return 0
+  }
+  if (positionals[0] === 'verify' && positionals.length === 2) {
+    return verify(positionals[1], values.expect)
+  }
+  if (positionals[0] !== 'assess' || positionals.length > 1) {
+    throw new Error(`Unknown command "${positionals.join(' ')}".\n\n${USAGE}`)
+  }
+
+  const format = z.enum(REPORT_FORMATS).safeParse(values.format)
+  if (!format.success) {
+    throw new Error(`--format must be one of ${REPORT_FORMATS.join(', ')}.`)
+  }
+  const locale = localeSchema.optional().safeParse(values.locale)
+  if (!locale.success) {
+    throw new Error(`--locale must be one of ${LOCALES.join(', ')}.`)
+  }
+  const failOn = values['fail-on'] === 'none' ? [] : values['fail-on']?.split(',')
+  const policy = compliancePolicySchema.safeParse({
+    failOn: failOn?.map(criticality => criticality.trim().toUpperCase()),
+    minScore: values['min-score'] === undefined ? undefined : Number(values['min-score'])
+  })
+  if (!policy.success) {
+    throw new Error(`Invalid policy: ${formatZodError(policy.error)}`)
+  }
+
+  const date = values['assessment-date']
+  if (date && (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date)))) {
+    throw new Error('--assessment-date must be a YYYY-MM-DD date.')
+  }
+  const assessmentDate = date ? new Date(`${date}T00:00:00Z`) : new Date()
+
+  if (values.regulations && values['regulations-version']) {
+    throw new Error('Pass either --regulations or --regulations-version, not both.')
+  }
+  const regulations = values.regulations
+    ? readFile(values.regulations, regulationsFileSchema)
+    : applyJurisdiction(loadRegulations(values['regulations-version']), BASE_JURISDICTION)
+
+  const input = {
+    regulations,
+    jurisdiction: values.jurisdiction,
+    applicability: values.applicability
+      ? readFile(values.applicability, applicabilityProfileSchema)
+      : undefined,
+    productFacts: values['product-facts']
+      ? readFile(values['product-facts'], productFactsSchema)
+      : undefined,
+    pages: loadPageAudits(values.audit || [], values.manifest),
+    attestations: values['manual-review']
+      ? readFile(values['manual-review'], manualReviewFileSchema).attestations
+      : [],
+    exemptionClaims: values.exemptions
+      ? readFile(values.exemptions, exemptionsFileSchema).claims
+      : [],
+    waivers: values.waivers ? readFile(values.waivers, waiversFileSchema).waivers : [],
+    // The bundle must record the date the results were actually computed for
+    assessmentDate
+  }
+  const assessment = assessCompliance(input)
+
+  // Scored and reported exactly as the agent would read compliance.json back
+  const compliance = complianceSchema.parse(JSON.parse(JSON.stringify(assessment)))
+  const score = calculateComplianceScore(compliance, values.profile)
+  const report = renderReport(buildComplianceReport(compliance, score, locale.data), format.data)
+
+  const outDir = resolve(values.out || '.')
+  const reportPath = join(outDir, `report.${REPORT_FILE_EXTENSIONS[format.data]}`)
+  mkdirSync(outDir, { recursive: true })
+  writeFileSync(join(outDir, 'compliance.json'), JSON.stringify(assessment, null, 2))
+  writeFileSync(join(outDir, 'score.json'), JSON.stringify(score, null, 2))
+  writeFileSync(reportPath, report)
+
+  console.log(
+    `Score ${score.finalScore} (${score.profile} profile, ${score.coverage.assessed} of ${score.coverage.total} requirements assessed)`
+  )
+  console.log(`Results written to ${outDir}`)
+
+  if (values.bundle) {
+    const bundle = createEvidenceBundle({
+      ...input,
+      profile: values.profile,
+      report: { format: format.data, locale: locale.data }
+    })
+    writeFileSync(resolve(values.bundle), bundle.archive)
+    console.log(
+      `Evidence bundle written to ${resolve(values.bundle)} (manifest SHA-256 ${bundle.sha256})`
+    )
+  }
+
+  const violations = checkCompliancePolicy(compliance, score, policy.data)
+  if (violations.length > 0) {
+    console.error(`Policy failed:\n${violations.map(violation => `  - ${violation}`).join('\n')}`)
+    return 1
+  }
+  console.log('Policy passed')
+  return 0
+}
+
+// Checks a bundle written with assess --bundle and reproduces its results from the inputs in it
+function verify(path: string, expectedHash?: string): number {
+  let archive: Buffer
+  try {
+    archive = readFileSync(path)
+  } catch (error) {
+    throw new Error(
+      `Cannot read ${path}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  const result = verifyEvidenceBundle(archive)
+  const problems = [...result.problems]
+  if (expectedHash && expectedHash.toLowerCase() !== result.sha256) {
+    problems.unshift(`manifest SHA-256 is ${result.sha256}, expected ${expectedHash}`)
+  }
+
+  console.log(
+    `Bundle generated ${result.manifest.generated_at}, assessed as of ${result.manifest.assessment_date}, mapping ${result.manifest.mapping_version}, ${result.manifest.scoring_profile} profile (manifest SHA-256 ${result.sha256})`
+  )
+  if (problems.length > 0) {
+    console.error(`Verification failed:\n${problems.map(problem => `  - ${problem}`).join('\n')}`)
+    return 1
+  }
+  console.log('Verification passed: every file matches its hash and the results reproduce exactly')
+  return 0
+}
+
+// One audit per page, from the manifest or the --audit files, with the audit as it was read
+function loadPageAudits(
+  auditPaths: string[],
+  manifestPath?: string
+): Array<PageAuditInput & { audit: unknown }> {
+  const loadPage = (path: string, url?: string, template?: string) => {
+    const raw = decodeAuditFile(readText(path), path)
+    try {
+      const input = parseAuditInput(raw)
+      return { url: url || input.metadata.url || path, template, input, audit: raw }
+    } catch (error) {
+      throw new Error(`${path}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  if (manifestPath && auditPaths.length > 0) {
+    throw new Error('Pass either --manifest or --audit, not both.')
+  }
+  if (manifestPath) {
+    const manifest = readFile(manifestPath, auditManifestSchema)
+    return manifest.pages.map(page =>
+      loadPage(join(dirname(manifestPath), page.file), page.url, page.template)
+    )
+  }
+  if (auditPaths.length === 0) {
+    throw new Error(`No audits given: pass --audit or --manifest.\n\n${USAGE}`)
+  }
+  return auditPaths.map(path => loadPage(path))
+}
+
+function readFile<T extends z.ZodTypeAny>(path: string, schema: T): z.infer<T> {
+  const parsed = schema.safeParse(readJson(path))
+  if (!parsed.success) {
+    throw new Error(`Invalid ${path}: ${formatZodError(parsed.error)}`)
+  }
+  return parsed.data
+}
+
+function readJson(path: string) {
+  const content = readText(path)
+  try {
+    return JSON.parse(content)
+  } catch (error) {
+    throw new Error(
+      `${path} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+function readText(path: string): string {
+  try {
+    return readFileSync(path, 'utf8')
+  } catch (error) {
+    throw new Error(
+      `Cannot read ${path}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2))
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error))
+  process.exitCode = 2
+}
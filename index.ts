@@ -1,8 +1,66 @@
 import { string, z } from 'zod'
-import { Agent } from '@openserv-labs/sdk'
+import { Agent, CapabilityFuncParams } from '@openserv-labs/sdk'
 import 'dotenv/config'
-import { mapLighthouseToEAA } from './util/score_logic'
-import { fetchFile } from './util/fetch_file'
+import { PageAuditInput } from './util/site_audit'
+import { ManualAttestation, MANUAL_REVIEW_PATH, upsertAttestation } from './util/manual_review'
+import { calculateComplianceScore, SCORING_PROFILES } from './util/scoring'
+import { COMPLIANCE_PATH, ComplianceData, complianceSchema } from './util/compliance'
+import { compareRunSeries, runSnapshotSchema } from './util/run_diff'
+import {
+  buildComplianceReport,
+  renderReport,
+  REPORT_FILE_EXTENSIONS,
+  REPORT_FORMATS,
+  reportScoreSchema
+} from './util/report_renderer'
+import {
+  buildAccessibilityStatement,
+  renderStatement,
+  STATEMENT_FILE_NAMES,
+  STATEMENT_FORMATS,
+  statementExemptionsSchema,
+  statementOrganisationSchema
+} from './util/accessibility_statement'
+import { complianceToSarif, SARIF_PATH } from './util/sarif'
+import {
+  buildRemediationBacklog,
+  REMEDIATION_FILE_NAMES,
+  REMEDIATION_FORMATS,
+  renderRemediationBacklog
+} from './util/remediation'
+import { applyJurisdiction, BASE_JURISDICTION, jurisdictionCodes } from './util/jurisdiction'
+import {
+  diffRegulations,
+  findAffectedResults,
+  loadRegulations,
+  regulationVersions
+} from './util/regulation_datasets'
+import { applicabilityProfileSchema } from './util/applicability'
+import { assessCompliance } from './util/assessment'
+import { createEvidenceBundle, EVIDENCE_BUNDLE_PATH } from './util/evidence_bundle'
+import { memoryNarrativeCache, NarrativeModel, writeNarrative } from './util/narrative'
+import { DEFAULT_LOCALE, localeSchema, localiseRegulations } from './util/i18n'
+import { productFactsSchema } from './util/timeline'
+import { decodeAuditFile } from './util/audit_input'
+import {
+  DEFAULT_PIPELINE,
+  orderPipelineSteps,
+  PIPELINE_STATE_PATH,
+  PipelineState,
+  pipelineTask,
+  planPipelineRun
+} from './util/pipeline'
+import {
+  ArtifactPatterns,
+  artifactPatternsSchema,
+  fetchWorkspaceText,
+  findArtifactFiles,
+  parseArtifactFile,
+  readArtifact,
+  requireArtifact,
+  uploadWorkspaceFile,
+  WorkspaceFile
+} from './util/workspace_files'
 
 // Create the agent
 export const agent = new Agent({
@@ -13,75 +71,76 @@ export const agent = new Agent({
 agent.addCapability({
   name: 'create_task_sequence',
   description:
-    'Creates a structured sequence of tasks for compliance auditing using defined capabilities. No other tools are required to complete this process. Expected output: generateReport_id to confirm task sequence created succesfuly',
-  schema: z.object({}),
+    'Creates the compliance auditing tasks from the pipeline definition (pipeline.json in the workspace, or the default: fetch regulations, compare, then score and report in parallel). Run it again to resume: failed steps are put back to to-do instead of being created twice, and fromStep re-runs one step and everything after it. No other tools are required to complete this process. Expected output: the task id of every step',
+  schema: z.object({
+    assignee: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('Agent that runs the steps; defaults to pipeline.json, then to this agent'),
+    fromStep: z.string().optional().describe('Re-run this step and every step that depends on it'),
+    fresh: z.boolean().default(false).describe('Start a new run instead of resuming the last one')
+  }),
   async run({ args, action }): Promise<string> {
-    const workspaceId = action?.workspace?.id || parseInt(process.env.WORKSPACE_ID || '0')
-    const assignee = 243 // Ensure this is a valid agent ID
-
-    if (!workspaceId || isNaN(workspaceId)) {
+    const workspaceId = action?.workspace?.id || process.env.WORKSPACE_ID
+    if (!workspaceId) {
       throw new Error('Invalid WORKSPACE_ID. Please check the environment variables.')
     }
 
-    console.log('Creating legislative task sequence with workspaceId:', workspaceId)
-
     try {
-      // **Task 1: Fetch Regulations**
-      const fetchRegulations = await safeCreateTask({
-        workspaceId,
-        assignee,
-        description:
-          'Fetch the latest EAA regulations using the fetch-regulations capability. No other tools are required.',
-        body: 'Retrieve the latest European Accessibility Act (EAA) regulations. You MUST use the capability: `fetch-regulations`. No other tools are required to complete this task.',
-        input: '{}',
-        expectedOutput: 'JSON response named regulations.json',
-        dependencies: []
-      })
-
-      // **Task 2: Compare Audit with Regulations**
-      const compareAudit = await safeCreateTask({
-        workspaceId,
-        assignee,
-        description:
-          'Compare the website audit with EAA compliance regulations using the run-comparison capability. No other tools are required.',
-        body: 'Map the audit results against EAA compliance regulations. You MUST use the capability: `run-comparison`. No other tools are required to complete this task. Required input: `audit.json` and `regulations.json`.',
-        input: `'audit.json' from the workspace, 'regulations.json' from the workspace`,
-        expectedOutput: `JSON report named compliance.json`,
-        dependencies: fetchRegulations.id ? [fetchRegulations.id] : []
-      })
+      const files = await agent.getFiles({ workspaceId })
+      const pipeline = (await readArtifact(files, 'pipeline')) || DEFAULT_PIPELINE
+      const steps = orderPipelineSteps(pipeline)
+      const previous = args.fresh ? undefined : await readArtifact(files, 'pipelineState')
+      const assignee = args.assignee || pipeline.assignee || previous?.assignee || action?.me.id
+      if (!assignee) {
+        throw new Error('No assignee: pass one, set it in pipeline.json or run this from a task.')
+      }
 
-      // **Task 3: Calculate Compliance Score**
-      const calculateScore = await safeCreateTask({
-        workspaceId,
-        assignee,
-        description:
-          'Calculate the final compliance score using the calculate-score capability. No other tools are required.',
-        body: 'Determine the compliance score based on mapped audit results. You MUST use the capability: `calculate-score`. No other tools are required to complete this task. Required input: `compliance.json`.',
-        input: `'compliance.json' from the workspace`,
-        expectedOutput: `JSON report named score.json`,
-        dependencies: compareAudit.id ? [compareAudit.id] : []
-      })
+      const taskStatuses = new Map<number, string>(
+        (previous ? await agent.getTasks({ workspaceId }) : []).map(task => [task.id, task.status])
+      )
+      const plans = planPipelineRun(steps, previous, taskStatuses, args.fromStep)
 
-      // **Task 4: Generate User-Friendly Report**
-      const generateReport = await safeCreateTask({
-        workspaceId,
+      const state: PipelineState = {
+        started_at: previous?.started_at || new Date().toISOString(),
         assignee,
-        description:
-          'Generate a user-friendly compliance report using the process-results capability. No other tools are required.',
-        body: 'Summarize the compliance results into an accessible report. You MUST use the capability: `process-results`. No other tools are required to complete this task. Required input: `compliance.json`.',
-        input: `'compliance.json' from the workspace`,
-        expectedOutput: `Plain language report named report.json`,
-        dependencies: calculateScore.id ? [calculateScore.id] : []
-      })
+        tasks: { ...previous?.tasks }
+      }
+      for (const plan of plans) {
+        if (plan.action === 'reset' && plan.taskId) {
+          await agent.updateTaskStatus({ workspaceId, taskId: plan.taskId, status: 'to-do' })
+        }
+        if (plan.action === 'replace' && plan.taskId && plan.status !== 'done') {
+          await agent.updateTaskStatus({ workspaceId, taskId: plan.taskId, status: 'cancelled' })
+        }
+        if (plan.action === 'create' || plan.action === 'replace') {
+          const task = await safeCreateTask({
+            workspaceId,
+            assignee,
+            ...pipelineTask(plan.step),
+            dependencies: plan.step.dependsOn.map(key => state.tasks[key])
+          })
+          state.tasks[plan.step.key] = task.id
+          // Recorded after every new task, so a failure half-way still resumes without duplicates
+          await uploadWorkspaceFile(uploadFile, {
+            workspaceId,
+            path: PIPELINE_STATE_PATH,
+            content: state
+          })
+        }
+      }
 
-      console.log('Legislative task sequence created successfully:', {
-        fetchRegulations,
-        compareAudit,
-        calculateScore,
-        generateReport
+      console.log('Legislative task sequence ready:', state.tasks)
+      return JSON.stringify({
+        steps: plans.map(plan => ({
+          key: plan.step.key,
+          capability: plan.step.capability,
+          action: plan.action,
+          taskId: state.tasks[plan.step.key]
+        }))
       })
-
-      return JSON.stringify({ id: generateReport.id, status: generateReport.status })
     } catch (error) {
       console.error('Failed to create task sequence:', error)
       throw error
@@ -94,30 +153,85 @@ agent.addCapability({
 agent.addCapability({
   name: 'fetch-regulations',
   description:
-    'Fetch the latest European Accessibility Act (EAA) regulations from our repository. To use as a reference for your website. No other tools are needed to complete this process.',
-  schema: z.object({}),
-  async run({ action }) {
-    const regulations = await import('./util/regulations.json')
-    const regulation = regulations.default
-    // await agent.uploadFile({
-    //   workspaceId: action.workspace.id,
-    //   path: 'regulations.json',
-    //   file: JSON.stringify(regulation),
-    //   skipSummarizer: true
-    // })
-    // await agent.completeTask({
-    //   workspaceId: action.workspace.id,
-    //   taskId: action.task.id,
-    //   output: 'File named regulations.json'
-    // })
-    return JSON.stringify(regulation)
+    'Fetch the European Accessibility Act (EAA) regulations from our repository, the latest or a specific dataset version, optionally with the transposing legislation, enforcement body and national rules of one member state and the requirement texts in German, French, Spanish or Dutch. To use as a reference for your website. No other tools are needed to complete this process.',
+  schema: z.object({
+    version: z
+      .enum(regulationVersions())
+      .optional()
+      .describe('Regulation dataset version; defaults to the latest'),
+    jurisdiction: z
+      .enum(jurisdictionCodes())
+      .default(BASE_JURISDICTION)
+      .describe('Member state whose transposition the service is judged against, or EU'),
+    locale: localeSchema
+      .default(DEFAULT_LOCALE)
+      .describe('Language of the requirement texts; reports and statements default to it')
+  }),
+  async run({ args, action }) {
+    const regulation = localiseRegulations(
+      applyJurisdiction(loadRegulations(args.version), args.jurisdiction),
+      args.locale
+    )
+    const file = JSON.stringify(regulation)
+    await handOff(action, 'regulations.json', file)
+    return file
+  }
+})
+
+agent.addCapability({
+  name: 'diff-regulations',
+  description:
+    'Compares two versions of the regulation dataset and lists added, removed and reworded requirements and criticality changes. Given earlier compliance.json results, it also flags which of them were produced against an older dataset and need run-comparison again. No other tools are needed to complete this process.',
+  schema: z.object({
+    from: z.enum(regulationVersions()),
+    to: z.enum(regulationVersions()).optional().describe('Defaults to the latest version'),
+    results: z
+      .array(z.object({ label: z.string(), compliance: complianceSchema }))
+      .default([])
+      .describe('Previously generated compliance results to check')
+  }),
+  async run({ args }): Promise<string> {
+    const diff = diffRegulations(loadRegulations(args.from), loadRegulations(args.to))
+    return JSON.stringify({ diff, affected: findAffectedResults(args.results, args.to) })
   }
 })
 
+// Where run-comparison and create-evidence-bundle take their inputs from
+const assessmentArgsSchema = z.object({
+  jurisdiction: z
+    .enum(jurisdictionCodes())
+    .optional()
+    .describe(
+      'Member state to assess against; defaults to the one regulations.json was fetched for'
+    ),
+  applicability: applicabilityProfileSchema
+    .optional()
+    .describe(
+      'Product and service types and channels the client offers, e.g. e_commerce on website and ios; defaults to applicability.json'
+    ),
+  assessmentDate: z
+    .string()
+    .refine(value => !isNaN(Date.parse(value)), 'must be an ISO 8601 date')
+    .optional()
+    .describe(
+      'Date obligations, transitional periods, waivers and exemption claims are assessed against; defaults to today'
+    ),
+  productFacts: productFactsSchema
+    .optional()
+    .describe(
+      'Dates that decide whether a transitional period covers the client, e.g. { "contract_concluded": "2024-03-01", "terminal_deployed": "2019-05-01" }; defaults to product-facts.json'
+    ),
+  files: artifactPatternsSchema
+    .default({})
+    .describe(
+      'Other workspace file names or globs per input, e.g. { "regulations": ["eaa/regulations-*.json"], "pageAudits": ["lighthouse/**/*.json"] }'
+    )
+})
+
 agent.addCapability({
   name: 'run-comparison',
-  description: `Run a comparison check between the audit's output and the EAA compliance regulations by retrieving files from the workspace. No other tools are needed to complete this process.`,
-  schema: z.object({}),
+  description: `Run a comparison check between the audit's output (Lighthouse reports or axe-core results, one per page, or native app results from Android's Accessibility Test Framework or XCUITest, one per screen) and the EAA compliance regulations by retrieving files from the workspace. No other tools are needed to complete this process.`,
+  schema: assessmentArgsSchema,
   async run({ args, action }): Promise<string> {
     try {
       // Validate workspace ID
@@ -129,419 +243,292 @@ agent.addCapability({
       // Retrieve all files in the workspace
       const files = await agent.getFiles({ workspaceId })
 
-      // Extract file URLs for audit.json and regulation.json
-      const auditFile = files.find(
-        (file: { path: string; fullUrl: string }) => file.path === 'audit.json'
-      )
-      const regulationFile = files.find(
-        (file: { path: string; fullUrl: string }) => file.path === 'regulations.json'
-      )
-
-      if (!auditFile || !regulationFile) {
-        throw new Error('Required files (audit.json, regulation.json) not found in workspace.')
-      }
-
-      // Fetch audit and regulation files using the retrieved URLs
-      const audit = await fetchFile(auditFile.fullUrl)
-      const regulations = await fetchFile(regulationFile.fullUrl)
+      const compliance = assessCompliance(await loadAssessmentInput(files, args))
 
-      if (!audit || !regulations) {
-        throw new Error('Failed to fetch required files. Please check file URLs.')
-      }
-
-      // Run the compliance mapping function
-      const { mappedResults, auditFix } = mapLighthouseToEAA(audit, regulations)
-
-      // await agent.uploadFile({
-      //   workspaceId: action.workspace.id,
-      //   path: 'compliance.json',
-      //   file: JSON.stringify({ mappedResults, auditFix }),
-      //   skipSummarizer: true
-      // })
-      // await agent.completeTask({
-      //   workspaceId: action.workspace.id,
-      //   taskId: action.task.id,
-      //   output: 'File named compliance.json'
-      // })
-      return JSON.stringify({ mappedResults, auditFix })
+      const file = JSON.stringify(compliance)
+      await handOff(action, COMPLIANCE_PATH, file)
+      return file
     } catch (error) {
       console.error('Error running comparison:', error)
-      throw new Error('Failed to compare audit results with regulations.')
+      const reason = error instanceof Error ? error.message : String(error)
+      throw new Error(`Failed to compare audit results with regulations: ${reason}`)
     }
   }
 })
 
 agent.addCapability({
-  name: 'calculate-score',
+  name: 'record-manual-review',
   description:
-    'Calculates the final compliance score based on audit results and criticality factors. No other tools are needed to complete this process.',
+    'Records a human tester verdict (pass or fail, with notes) for an audit that needs manual review, such as focus order or visual order following the DOM. The verdict is merged into the requirement status on the next run-comparison. No other tools are needed to complete this process.',
   schema: z.object({
-    mappedResults: z.array(
-      z.object({
-        requirement_id: z.string(),
-        status: z.enum([
-          'pending',
-          'compliant',
-          'partially_compliant',
-          'non_compliant',
-          'exempted'
-        ]),
-        criticality: z.enum(['HIGH', 'MEDIUM', 'LOW'])
-      })
-    )
+    audit_id: z.string().describe('Audit id from the reviewChecklist in compliance.json'),
+    url: z
+      .string()
+      .optional()
+      .describe('Page the verdict applies to; leave empty for every audited page'),
+    result: z.enum(['pass', 'fail']),
+    notes: z.string().default(''),
+    tester: z.string().min(1)
   }),
   async run({ args, action }): Promise<string> {
-    let totalWeightedScore = 0
-    let maxPossibleScore = 0
-
-    const criticalityMultiplier = {
-      HIGH: 3,
-      MEDIUM: 2,
-      LOW: 1
+    const workspaceId = action?.workspace?.id
+    if (!workspaceId) {
+      throw new Error('Workspace ID is missing or undefined.')
     }
 
-    const mappedResults = args.mappedResults
-
-    mappedResults.forEach(({ status, criticality }) => {
-      if (status === 'pending') return // Ignore pending items
-
-      const multiplier = criticalityMultiplier[criticality] || 1
-      let score = 0
-
-      switch (status) {
-        case 'compliant':
-          score = 1
-          break
-        case 'partially_compliant':
-          score = 0.5
-          break
-        case 'non_compliant':
-          score = 0
-          break
-        case 'exempted':
-          score = 1 // Consider exempted as fully compliant since it's not applicable
-          break
-      }
+    const files = await agent.getFiles({ workspaceId })
+    const attestation: ManualAttestation = { ...args, reviewed_at: new Date().toISOString() }
+    const previous = await readArtifact(files, 'manualReview')
+    const attestations = upsertAttestation(previous?.attestations || [], attestation)
 
-      totalWeightedScore += score * multiplier
-      maxPossibleScore += multiplier
+    await uploadWorkspaceFile(uploadFile, {
+      workspaceId,
+      path: MANUAL_REVIEW_PATH,
+      content: { attestations }
     })
+    return JSON.stringify(attestation)
+  }
+})
+
+// The steps after run-comparison read its compliance.json unless the results are passed inline
+const complianceDataArg = complianceSchema
+  .optional()
+  .describe('Compliance results; defaults to compliance.json in the workspace')
+
+agent.addCapability({
+  name: 'calculate-score',
+  description:
+    'Calculates the final compliance score from compliance.json, with subscores per category and criticality and the share of requirements actually assessed. No other tools are needed to complete this process.',
+  schema: z.object({
+    complianceData: complianceDataArg,
+    profile: z
+      .enum(Object.keys(SCORING_PROFILES) as [string, ...string[]])
+      .default('default')
+      .describe('Weighting profile')
+  }),
+  async run({ args, action }): Promise<string> {
+    const compliance = await resolveCompliance(action, args.complianceData)
+    const score = calculateComplianceScore(compliance, args.profile)
 
-    // Normalize to a percentage out of 100
-    const finalScore = maxPossibleScore > 0 ? (totalWeightedScore / maxPossibleScore) * 100 : 0
-
-    // await agent.uploadFile({
-    //   workspaceId: action.workspace.id,
-    //   path: 'score.json',
-    //   file: JSON.stringify({ finalScore: Math.round(finalScore) }),
-    //   skipSummarizer: true
-    // })
-    // await agent.completeTask({
-    //   workspaceId: action.workspace.id,
-    //   taskId: action.task.id,
-    //   output: 'File named score.json'
-    // })
-    return JSON.stringify({ finalScore: Math.round(finalScore) })
+    const file = JSON.stringify(score)
+    await handOff(action, 'score.json', file)
+    return file
   }
 })
 
+agent.addCapability({
+  name: 'compare-runs',
+  description:
+    'Compares two or more compliance runs (compliance.json, optionally with score.json) in chronological order and reports regressed and improved requirements, new and fixed failing elements and the score change, with a short trend summary. No other tools are needed to complete this process.',
+  schema: z.object({
+    runs: z.array(runSnapshotSchema).min(2).describe('Runs from oldest to newest')
+  }),
+  async run({ args }): Promise<string> {
+    return JSON.stringify(compareRunSeries(args.runs))
+  }
+})
 
 agent.addCapability({
-  name: "process-results",
-  description: "Generates an accessibility compliance report with clear and actionable developer insights. No other tools are needed to complete this process.",
+  name: 'process-results',
+  description:
+    'Generates an accessibility compliance report from compliance.json with a summary per status and actionable insights per failing element, as Markdown, HTML, CSV or JSON. Set narrative to add an AI-written explanation of the fixes. No other tools are needed to complete this process.',
   schema: z.object({
-    complianceData: z.record(z.unknown()), // Accepts any valid JSON object
+    complianceData: complianceDataArg,
+    score: reportScoreSchema.optional().describe('score.json, to show the score in the report'),
+    format: z.enum(REPORT_FORMATS).default('markdown'),
+    narrative: z
+      .boolean()
+      .default(false)
+      .describe('Add an AI-written explanation with step-by-step fixes to the report'),
+    locale: localeSchema
+      .optional()
+      .describe('Report language; defaults to the language the regulations were fetched in')
   }),
-  async run({ args, action }) {
-    const complianceData = args.complianceData as {
-      mappedResults?: {
-        directive?: string;
-        requirements?: Array<{
-          requirement_id: string;
-          description: string;
-          category: string;
-          criticality: string;
-          legal_reference: string;
-          status: string;
-        }>;
-      };
-      auditFix?: {
-        [key: string]: {
-          title: string;
-          description: string;
-          details?: {
-            items?: Array<{ nodeLabel?: string; selector?: string; explanation?: string }>;
-          };
-        };
-      };
-    };
-
-    if (!complianceData || typeof complianceData !== "object") {
-      return "Error: Invalid compliance data provided.";
+  async run({ args, action }): Promise<string> {
+    const compliance = await resolveCompliance(action, args.complianceData)
+    const report = buildComplianceReport(compliance, args.score, args.locale)
+    if (args.narrative) {
+      const narrative = await writeNarrative(report, narrativeModel, { cache: narrativeCache })
+      if (narrative?.fallbacks.length) {
+        console.warn(`Narrative written from the template for: ${narrative.fallbacks.join(', ')}`)
+      }
+      report.narrative = narrative?.text
     }
 
-    const { mappedResults, auditFix } = complianceData;
+    const rendered = renderReport(report, args.format)
+    await handOff(action, `report.${REPORT_FILE_EXTENSIONS[args.format]}`, rendered)
+    return JSON.stringify({ format: args.format, report: rendered })
+  }
+})
 
-    if (!mappedResults?.requirements || !Array.isArray(mappedResults.requirements)) {
-      return "Error: 'requirements' field is missing or malformed.";
-    }
+agent.addCapability({
+  name: 'generate-statement',
+  description:
+    'Drafts the accessibility statement required by Annex V of the European Accessibility Act from compliance.json and the organisation details, as HTML or Markdown: conformance status, non-accessible content with reasons, disproportionate burden claims and the assessment date. No other tools are needed to complete this process.',
+  schema: z.object({
+    complianceData: complianceDataArg,
+    organisation: statementOrganisationSchema,
+    exemptions: statementExemptionsSchema
+      .optional()
+      .describe('Applied exemption claims; defaults to exemptions.applied in compliance.json'),
+    assessmentDate: z
+      .string()
+      .refine(value => !isNaN(Date.parse(value)), 'must be an ISO 8601 date')
+      .optional()
+      .describe('Defaults to the date the results were assessed on, as in compliance.json'),
+    format: z.enum(STATEMENT_FORMATS).default('html'),
+    locale: localeSchema
+      .optional()
+      .describe(
+        'Statement language, usually the national one; defaults to the language the regulations were fetched in'
+      )
+  }),
+  async run({ args, action }): Promise<string> {
+    const compliance = await resolveCompliance(action, args.complianceData)
+    const statement = buildAccessibilityStatement(compliance, args.organisation, {
+      exemptions: args.exemptions,
+      assessmentDate: args.assessmentDate,
+      locale: args.locale
+    })
+    const rendered = renderStatement(statement, args.format)
+    await handOff(action, STATEMENT_FILE_NAMES[args.format], rendered)
+    return JSON.stringify({ format: args.format, statement: rendered })
+  }
+})
 
-    // ✅ Create a structured user-friendly prompt for AI processing
-    const userPrompt = mappedResults.requirements
-      .map((req) => {
-        const fixData = auditFix?.[req.requirement_id];
-        const issueDetails = fixData
-          ? `**Issue:** ${fixData.title || "Unknown issue"}\n**Description:** ${fixData.description || "No description provided."}`
-          : "**Issue:** Unknown issue\n**Description:** No description available.";
-
-        const failingElements =
-          fixData?.details?.items && fixData.details.items.length > 0
-            ? fixData.details.items
-                .map(
-                  (item, index) =>
-                    `  ${index + 1}. **Element:** ${item.nodeLabel || "Unknown"}\n     - **Selector:** \`${item.selector || "N/A"}\`\n     - **Explanation:** ${item.explanation || "No explanation provided."}`
-                )
-                .join("\n")
-            : "  - No specific elements identified.";
-
-        return `### Requirement: ${req.requirement_id}
-**Category:** ${req.category}  
-**Criticality:** ${req.criticality}  
-**Status:** ${req.status}  
-**Legal Reference:** ${req.legal_reference}  
-
-${issueDetails}
-
-**Failing Elements:**  
-${failingElements}
-
-**Required Fix:**  
-Provide a **step-by-step** solution that developers can follow to fix this issue, ensuring compliance with accessibility standards.
-
-**Acceptance Criteria:**  
-- Clearly define what needs to be fixed.  
-- Specify when the issue is considered resolved (e.g., “Button must have an accessible label” ✅).  
-- Break down the solution into actionable, non-technical explanations.`;
-      })
-      .join("\n\n");
-
-    // ✅ Call the agent to process and generate developer-friendly report
-    const result = await agent.process({
-      messages: [
-        {
-          role: "system",
-          content: `You are an AI accessibility compliance assistant. Your task is to generate a clear, developer-friendly report based on accessibility audit data.
-
-**Instructions:**
-1. **Explain each problem in non-technical terms** so that non-experts can understand the impact.
-2. **Provide solutions with step-by-step guidance** on how to fix accessibility issues.
-3. **Break down compliance into simple language**, highlighting what is compliant and what is missing.
-4. **Ensure each task is actionable** with:
-   - A clear description of what needs to be fixed.
-   - Acceptance criteria for when the issue is resolved.
-   - Developer-friendly explanations.
-`
-        },
-        { role: "user", content: userPrompt },
-      ],
-    });
-
-    if (result.choices && result.choices.length > 0) {
-      const reportContent = result.choices[result.choices.length - 1].message.content || "Processing failed. No response generated.";
-
-      // await agent.uploadFile({
-      //   workspaceId: action.workspace.id,
-      //   path: "report.json",
-      //   file: JSON.stringify({ report: reportContent }),
-      //   skipSummarizer: true,
-      // });
-
-      // await agent.completeTask({
-      //   workspaceId: action.workspace.id,
-      //   taskId: action.task.id,
-      //   output: "File named report.json",
-      // });
-
-      return JSON.stringify({ report: reportContent });
+agent.addCapability({
+  name: 'export-sarif',
+  description:
+    'Exports the failing elements in compliance.json as a SARIF 2.1.0 log for code-scanning and pull request annotation tools, with the EAA requirement and legal reference on each result. No other tools are needed to complete this process.',
+  schema: z.object({
+    complianceData: complianceDataArg
+  }),
+  async run({ args, action }): Promise<string> {
+    const sarif = JSON.stringify(
+      complianceToSarif(await resolveCompliance(action, args.complianceData))
+    )
+    await handOff(action, SARIF_PATH, sarif)
+    return sarif
+  }
+})
+
+agent.addCapability({
+  name: 'plan-remediation',
+  description:
+    'Turns compliance.json into a ranked remediation backlog: one ticket per failing rule with the affected elements and pages, acceptance criteria, an effort estimate and a priority from criticality, reach, effort and the legal deadline. Exports as JSON, GitHub issues JSON or a Jira import CSV. No other tools are needed to complete this process.',
+  schema: z.object({
+    complianceData: complianceDataArg,
+    format: z
+      .enum(REMEDIATION_FORMATS)
+      .default('json')
+      .describe('json for the ranked backlog, github for issue bodies, jira for a CSV import'),
+    deadlines: z
+      .record(z.string().refine(value => !isNaN(Date.parse(value)), 'must be an ISO 8601 date'))
+      .optional()
+      .describe(
+        'Deadline per requirement_id; defaults to when the requirement applies or its transitional period ends'
+      ),
+    assessmentDate: z
+      .string()
+      .refine(value => !isNaN(Date.parse(value)), 'must be an ISO 8601 date')
+      .optional()
+      .describe('Date deadlines are measured from; defaults to today'),
+    locale: localeSchema
+      .optional()
+      .describe('Ticket language; defaults to the language the regulations were fetched in')
+  }),
+  async run({ args, action }): Promise<string> {
+    const compliance = await resolveCompliance(action, args.complianceData)
+    const backlog = buildRemediationBacklog(compliance, {
+      deadlines: args.deadlines,
+      assessmentDate: args.assessmentDate ? new Date(args.assessmentDate) : undefined,
+      locale: args.locale
+    })
+    const rendered = renderRemediationBacklog(backlog, args.format)
+    await handOff(action, REMEDIATION_FILE_NAMES[args.format], rendered)
+    return rendered
+  }
+})
+
+agent.addCapability({
+  name: 'create-evidence-bundle',
+  description:
+    'Runs the assessment from the workspace files like run-comparison, scores it and renders the report, and packs the input audits, regulation data, mapping table, scoring profile and outputs into evidence-bundle.tar.gz with a manifest of SHA-256 hashes, so the results can be reproduced and checked later with `eaa-legislator verify`. No other tools are needed to complete this process.',
+  schema: assessmentArgsSchema.extend({
+    profile: z
+      .enum(Object.keys(SCORING_PROFILES) as [string, ...string[]])
+      .default('default')
+      .describe('Weighting profile'),
+    format: z.enum(REPORT_FORMATS).default('markdown').describe('Format of the bundled report'),
+    locale: localeSchema
+      .optional()
+      .describe('Report language; defaults to that of the regulations, else English')
+  }),
+  async run({ args, action }): Promise<string> {
+    const workspaceId = action?.workspace?.id
+    if (!workspaceId) {
+      throw new Error('Workspace ID is missing or undefined.')
     }
 
-    return "Processing failed. No response generated.";
-  },
-});
-
-
-// agent.addCapability({
-//   name: "process-results",
-//   description: "Generates an accessibility compliance report with clear and actionable developer insights. No other tools are needed to complete this process.",
-//   schema: z.object({
-//     complianceData: z.record(z.unknown()), // Accepts any valid JSON object
-//   }),
-//   async run({ args, action }) {
-
-//     const complianceData = args.complianceData as {
-//       mappedResults?: {
-//         directive?: string;
-//         requirements?: Array<{
-//           requirement_id: string;
-//           description: string;
-//           category: string;
-//           criticality: string;
-//           legal_reference: string;
-//           status: string;
-//         }>;
-//       };
-//       auditFix?: {
-//         [key: string]: {
-//           title: string;
-//           description: string;
-//           details?: {
-//             items?: Array<{ nodeLabel?: string; selector?: string; explanation?: string }>;
-//           };
-//         };
-//       };
-//     };
-
-//     if (!complianceData || typeof complianceData !== "object") {
-//       console.error("Error: Invalid compliance data provided.");
-//       return "Error: Invalid compliance data provided.";
-//     }
-
-//     // ✅ Now correctly reading from `mappedResults`
-//     const { mappedResults, auditFix } = complianceData;
-
-//     if (!mappedResults?.requirements || !Array.isArray(mappedResults.requirements)) {
-//       console.error("Error: 'requirements' field is missing or malformed.", JSON.stringify(complianceData, null, 2));
-//       return "Error: 'requirements' field is missing or malformed.";
-//     }
-
-//     const mappedResultsData = {
-//       directive: mappedResults.directive || "Unknown Directive",
-//       requirements: mappedResults.requirements.map(req => ({
-//         requirement_id: req.requirement_id,
-//         description: req.description,
-//         category: req.category,
-//         criticality: req.criticality,
-//         legal_reference: req.legal_reference,
-//         status: req.status,
-//       })),
-//     };
-
-//     const summary = {
-//       partially_compliant: [] as Array<{
-//         requirement_id: string;
-//         description: string;
-//         category: string;
-//         criticality: string;
-//         legal_reference: string;
-//         issue?: string;
-//         suggestion?: string;
-//       }>,
-//       compliant: [] as Array<{
-//         requirement_id: string;
-//         description: string;
-//         category: string;
-//         criticality: string;
-//         legal_reference: string;
-//       }>,
-//       pending_high_criticality: [] as string[],
-//       pending_medium_criticality: [] as string[],
-//     };
-
-//     const actionableInsights = [] as Array<{
-//       issue: string;
-//       failing_element: string;
-//       selector: string;
-//       explanation: string;
-//       suggestion: string;
-//     }>;
-
-//     mappedResults.requirements.forEach((req) => {
-//       const fixData = auditFix?.[req.requirement_id];
-//       const requirementSummary = {
-//         requirement_id: req.requirement_id,
-//         description: req.description,
-//         category: req.category,
-//         criticality: req.criticality,
-//         legal_reference: req.legal_reference,
-//       };
-
-//       if (req.status === "compliant") {
-//         summary.compliant.push(requirementSummary);
-//         return;
-//       }
-
-//       if (req.status === "partially_compliant" || req.status === "non_compliant") {
-//         const issueDetails = fixData
-//           ? {
-//               issue: fixData.title || "Issue not specified.",
-//               suggestion: fixData.description || "No specific fix available.",
-//             }
-//           : { issue: "Issue not specified.", suggestion: "No specific fix available." };
-
-//         summary.partially_compliant.push({ ...requirementSummary, ...issueDetails });
-
-//         // Extract actionable elements from `auditFix`
-//         if (fixData?.details?.items && fixData.details.items.length > 0) {
-//           fixData.details.items.forEach((item) => {
-//             actionableInsights.push({
-//               issue: `${fixData.title} (${req.requirement_id})`,
-//               failing_element: item.nodeLabel || "Unknown Element",
-//               selector: item.selector || "No selector available",
-//               explanation: item.explanation || "No explanation provided.",
-//               suggestion: fixData.description || "Follow the WCAG guidelines for compliance.",
-//             });
-//           });
-//         } else {
-//           actionableInsights.push({
-//             issue: `${fixData.title} (${req.requirement_id})`,
-//             failing_element: "No specific elements identified.",
-//             selector: "N/A",
-//             explanation: "No specific failing elements provided.",
-//             suggestion: fixData.description || "Follow accessibility guidelines for best practices.",
-//           });
-//         }
-//       }
-
-//       if (req.status === "pending") {
-//         if (req.criticality === "HIGH") {
-//           summary.pending_high_criticality.push(req.requirement_id);
-//         } else if (req.criticality === "MEDIUM") {
-//           summary.pending_medium_criticality.push(req.requirement_id);
-//         }
-//       }
-//     });
-
-//     await agent.uploadFile({
-//       workspaceId: action.workspace.id,
-//       path: "report.json",
-//       file: JSON.stringify({
-//         mappedResults: mappedResultsData,
-//         summary,
-//         actionable_insights: actionableInsights,
-//       }),
-//       skipSummarizer: true,
-//     });
-
-//     await agent.completeTask({
-//       workspaceId: action.workspace.id,
-//       taskId: action.task.id,
-//       output: "File named report.json",
-//     });
-
-//     return "Task complete, file named: report.json";
-//   },
-// });
-
-
-async function safeCreateTask(taskData: {
-  workspaceId: number
-  assignee: number
-  description: string
-  body: string
-  input: string
-  expectedOutput: string
-  dependencies: number[]
-}) {
+    const files = await agent.getFiles({ workspaceId })
+    const bundle = createEvidenceBundle({
+      ...(await loadAssessmentInput(files, args)),
+      profile: args.profile,
+      report: { format: args.format, locale: args.locale }
+    })
+
+    await handOff(action, EVIDENCE_BUNDLE_PATH, bundle.archive)
+    return JSON.stringify({
+      path: EVIDENCE_BUNDLE_PATH,
+      sha256: bundle.sha256,
+      manifest: bundle.manifest
+    })
+  }
+})
+
+// Puts a capability's output in the workspace for the next pipeline step and completes the task
+// the capability ran for. Outside a workspace (direct calls) there is nothing to hand off.
+async function handOff(
+  action: CapabilityFuncParams<z.ZodTypeAny>['action'],
+  path: string,
+  file: Buffer | string
+): Promise<void> {
+  if (!action?.workspace?.id) return
+
+  const taskId = action.type === 'do-task' ? action.task.id : undefined
+  await uploadWorkspaceFile(uploadFile, {
+    workspaceId: action.workspace.id,
+    path,
+    content: file,
+    taskId
+  })
+  if (taskId) {
+    await agent.completeTask({
+      workspaceId: action.workspace.id,
+      taskId,
+      output: `File named ${path}`
+    })
+  }
+}
+
+const uploadFile = agent.uploadFile.bind(agent)
+
+// The compliance results passed inline, else compliance.json as run-comparison handed it off
+async function resolveCompliance(
+  action: CapabilityFuncParams<z.ZodTypeAny>['action'],
+  complianceData?: ComplianceData
+): Promise<ComplianceData> {
+  if (complianceData) return complianceData
+  const workspaceId = action?.workspace?.id
+  if (!workspaceId) {
+    throw new Error(
+      `No compliance results: pass complianceData or run in a workspace with ${COMPLIANCE_PATH}.`
+    )
+  }
+  return requireArtifact(await agent.getFiles({ workspaceId }), 'compliance')
+}
+
+async function safeCreateTask(taskData: Parameters<typeof agent.createTask>[0]) {
   try {
     const task = await agent.createTask(taskData)
     console.log(`Task created: ${taskData.description} → ID: ${task.id}`)
@@ -555,5 +542,70 @@ async function safeCreateTask(taskData: {
   }
 }
 
+// The agent's own model behind the narrative interface, with answers cached for the process
+const narrativeModel: NarrativeModel = {
+  async complete(messages) {
+    const result = await agent.process({ messages })
+    return result.choices?.[result.choices.length - 1]?.message.content ?? undefined
+  }
+}
+const narrativeCache = memoryNarrativeCache()
+
+async function loadAssessmentInput(
+  files: WorkspaceFile[],
+  args: z.infer<typeof assessmentArgsSchema>
+) {
+  return {
+    regulations: await requireArtifact(files, 'regulations', args.files),
+    jurisdiction: args.jurisdiction,
+    applicability: args.applicability || (await readArtifact(files, 'applicability', args.files)),
+    productFacts: args.productFacts || (await readArtifact(files, 'productFacts', args.files)),
+    assessmentDate: args.assessmentDate ? new Date(args.assessmentDate) : undefined,
+    // One audit per page: audit-manifest.json, audits/*.json or a single audit.json
+    pages: await loadPageAudits(files, args.files),
+    // Verdicts recorded with record-manual-review settle audits that need a human
+    attestations: (await readArtifact(files, 'manualReview', args.files))?.attestations,
+    exemptionClaims: (await readArtifact(files, 'exemptions', args.files))?.claims,
+    // Accepted false positives, matched per element
+    waivers: (await readArtifact(files, 'waivers', args.files))?.waivers
+  }
+}
+
+// Every audit is kept as fetched, for evidence bundles
+async function loadPageAudits(
+  files: WorkspaceFile[],
+  patterns: ArtifactPatterns
+): Promise<Array<PageAuditInput & { audit: unknown }>> {
+  const loadPage = async (file: WorkspaceFile, url?: string, template?: string) => {
+    const audit = decodeAuditFile(await fetchWorkspaceText(file), file.path)
+    const input = parseArtifactFile(file, 'audit', audit)
+    return { url: url || input.metadata.url || file.path, template, input, audit }
+  }
+
+  const manifest = await readArtifact(files, 'auditManifest', patterns)
+  if (manifest) {
+    return Promise.all(
+      manifest.pages.map(page => {
+        const file = files.find(candidate => candidate.path === page.file)
+        if (!file) {
+          throw new Error(`Audit file ${page.file} listed in the manifest not found in workspace.`)
+        }
+        return loadPage(file, page.url, page.template)
+      })
+    )
+  }
+
+  const pageFiles = findArtifactFiles(files, 'pageAudits', patterns)
+  if (pageFiles.length > 0) {
+    return Promise.all(pageFiles.map(file => loadPage(file)))
+  }
+
+  const [auditFile] = findArtifactFiles(files, 'audit', patterns)
+  if (!auditFile) {
+    throw new Error('No audits found in workspace: add audit.json, audits/*.json or a manifest.')
+  }
+  return [await loadPage(auditFile)]
+}
+
 // Start the agent's HTTP server
 agent.start()
@@ -0,0 +1,159 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  buildAccessibilityStatement,
+  renderStatement,
+  StatementOrganisation
+} from '../util/accessibility_statement'
+import { ComplianceData, complianceSchema } from '../util/compliance'
+
+const organisation: StatementOrganisation = {
+  name: 'Example Shop GmbH',
+  service: 'Example Shop',
+  service_url: 'https://shop.example',
+  contact: { email: 'a11y@shop.example' },
+  feedback_mechanism: 'Write to us and we answer within five working days.',
+  enforcement_body: { name: 'Market surveillance <authority>', url: 'https://msa.example' }
+}
+
+function requirement(requirementId: string, status: string) {
+  return {
+    requirement_id: requirementId,
+    description: `Requirement ${requirementId}`,
+    criticality: 'HIGH',
+    legal_reference: 'Annex I, Section I',
+    status
+  }
+}
+
+function compliance(statuses: Record<string, string>): ComplianceData {
+  return complianceSchema.parse({
+    assessed_at: '2025-07-01',
+    mappedResults: Object.entries(statuses).map(([id, status]) => requirement(id, status)),
+    issues: [
+      {
+        fingerprint: 'fp1',
+        audit_id: 'link-name',
+        title: 'Links do not have a discernible name',
+        url: 'https://shop.example/',
+        requirement_ids: ['A1.1']
+      },
+      {
+        fingerprint: 'fp2',
+        audit_id: 'link-name',
+        title: 'Links do not have a discernible name',
+        url: 'https://shop.example/cart',
+        requirement_ids: ['A1.1']
+      },
+      {
+        fingerprint: 'fp3',
+        audit_id: 'link-name',
+        title: 'Links do not have a discernible name',
+        url: 'https://shop.example/cart',
+        requirement_ids: ['A1.1']
+      }
+    ],
+    pages: [
+      {
+        url: 'https://shop.example/',
+        auditMetadata: { source: 'axe-core', fetchTime: '2025-06-30T10:00:00.000Z' }
+      },
+      {
+        url: 'https://shop.example/cart',
+        auditMetadata: { source: 'axe-core', fetchTime: '2025-06-30T10:05:00.000Z' }
+      }
+    ]
+  })
+}
+
+const preparedAt = new Date('2025-07-02T08:00:00.000Z')
+
+describe('accessibility statement', () => {
+  it('is fully compliant only when every in-scope requirement passed', () => {
+    const statement = buildAccessibilityStatement(
+      compliance({ 'A1.1': 'compliant', 'A6.1': 'not_applicable' }),
+      organisation,
+      { preparedAt }
+    )
+
+    assert.equal(statement.conformance_status, 'fully_compliant')
+    assert.deepEqual(statement.non_accessible_content, [])
+    assert.deepEqual(statement.not_assessed, [])
+  })
+
+  it('is partially compliant with failures, and not compliant when nothing passed', () => {
+    const partial = buildAccessibilityStatement(
+      compliance({ 'A1.1': 'non_compliant', 'A9.1': 'compliant' }),
+      organisation,
+      { preparedAt }
+    )
+    const none = buildAccessibilityStatement(
+      compliance({ 'A1.1': 'non_compliant', 'A5.1': 'pending' }),
+      organisation,
+      { preparedAt }
+    )
+
+    assert.equal(partial.conformance_status, 'partially_compliant')
+    assert.equal(none.conformance_status, 'not_compliant')
+  })
+
+  it('lists each failing check once with the pages it fails on', () => {
+    const statement = buildAccessibilityStatement(
+      compliance({ 'A1.1': 'non_compliant', 'A5.1': 'pending', 'A2.1': 'needs_review' }),
+      organisation,
+      { preparedAt }
+    )
+
+    assert.deepEqual(statement.non_accessible_content[0].failures, [
+      {
+        audit_id: 'link-name',
+        title: 'Links do not have a discernible name',
+        pages: ['https://shop.example/', 'https://shop.example/cart']
+      }
+    ])
+    assert.deepEqual(
+      statement.not_assessed.map(req => req.requirement_id),
+      ['A5.1', 'A2.1']
+    )
+  })
+
+  it('dates the assessment from the results and collects the tools', () => {
+    const statement = buildAccessibilityStatement(
+      compliance({ 'A1.1': 'compliant' }),
+      organisation,
+      { preparedAt }
+    )
+
+    assert.deepEqual(statement.assessment, { date: '2025-07-01', pages: 2, tools: ['axe-core'] })
+    assert.equal(statement.prepared_at, '2025-07-02')
+  })
+
+  it('requires an enforcement body when no national jurisdiction names one', () => {
+    const withoutBody = { ...organisation, enforcement_body: undefined }
+
+    assert.throws(
+      () => buildAccessibilityStatement(compliance({ 'A1.1': 'compliant' }), withoutBody),
+      /enforcement body is missing/
+    )
+  })
+
+  it('renders Markdown and escaped HTML', () => {
+    const statement = buildAccessibilityStatement(
+      compliance({ 'A1.1': 'non_compliant', 'A9.1': 'compliant' }),
+      organisation,
+      { preparedAt }
+    )
+    const markdown = renderStatement(statement, 'markdown')
+    const html = renderStatement(statement, 'html')
+
+    assert.match(markdown, /^# Accessibility statement for Example Shop$/m)
+    assert.match(
+      markdown,
+      /^- Requirement A1\.1 \(A1\.1, Annex I, Section I\): Links do not have a discernible name \(2 pages\)$/m
+    )
+    assert.match(markdown, /^- Email: a11y@shop\.example$/m)
+    assert.match(html, /<html lang="en">/)
+    assert.match(html, /Market surveillance &lt;authority&gt;/)
+    assert.doesNotMatch(html, /<authority>/)
+  })
+})
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { applicabilityProfileSchema, applyApplicabilityProfile } from '../util/applicability'
+import { loadRegulations } from '../util/regulation_datasets'
+
+function statuses(profile: unknown): Record<string, string> {
+  const scoped = applyApplicabilityProfile(
+    loadRegulations(),
+    applicabilityProfileSchema.parse(profile)
+  )
+  return Object.fromEntries(scoped.requirements.map(req => [req.requirement_id, req.status]))
+}
+
+describe('applyApplicabilityProfile', () => {
+  it('keeps channel requirements in scope when the profile names no channels', () => {
+    const scoped = statuses({ types: ['e_commerce'] })
+
+    assert.equal(scoped['A1.1'], 'pending')
+    assert.equal(scoped['A1.2'], 'pending')
+    assert.equal(scoped['A6.1'], 'pending')
+    // Types still narrow the scope
+    assert.equal(scoped['A8.1'], 'not_applicable')
+    assert.equal(scoped['A2.1'], 'not_applicable')
+  })
+
+  it('treats an empty channel list like no channels', () => {
+    assert.deepEqual(
+      statuses({ types: ['e_commerce'], channels: [] }),
+      statuses({ types: ['e_commerce'] })
+    )
+  })
+
+  it('marks requirements for channels the client does not offer not applicable', () => {
+    const scoped = statuses({ types: ['e_commerce'], channels: ['website'] })
+
+    assert.equal(scoped['A1.1'], 'pending')
+    assert.equal(scoped['A1.2'], 'not_applicable')
+  })
+
+  it('records the profile on the results', () => {
+    const profile = applicabilityProfileSchema.parse({ types: ['consumer_banking'] })
+    const scoped = applyApplicabilityProfile(loadRegulations(), profile)
+
+    assert.deepEqual(scoped.applicability, profile)
+  })
+
+  it('requires at least one product or service type', () => {
+    assert.equal(applicabilityProfileSchema.safeParse({ types: [] }).success, false)
+  })
+})
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { decodeAuditFile, parseAuditInput } from '../util/audit_input'
+
+function audit(id: string, score: number | null) {
+  return { id, title: id, description: '', score, scoreDisplayMode: 'binary' }
+}
+
+function lhr(overrides: Record<string, unknown> = {}) {
+  return {
+    lighthouseVersion: '12.1.0',
+    requestedUrl: 'https://shop.example/',
+    finalDisplayedUrl: 'https://shop.example/home',
+    fetchTime: '2026-05-04T10:00:00.000Z',
+    configSettings: { formFactor: 'mobile' },
+    categories: {
+      accessibility: { score: 0.87, auditRefs: [{ id: 'color-contrast' }, { id: 'image-alt' }] }
+    },
+    audits: {
+      'color-contrast': audit('color-contrast', 0),
+      'image-alt': audit('image-alt', 1),
+      'largest-contentful-paint': audit('largest-contentful-paint', 0.5)
+    },
+    ...overrides
+  }
+}
+
+describe('parseAuditInput with Lighthouse reports', () => {
+  it('keeps the accessibility audits of a full report and records the run', () => {
+    const input = parseAuditInput(lhr())
+
+    assert.deepEqual(Object.keys(input.audits), ['color-contrast', 'image-alt'])
+    assert.deepEqual(input.metadata, {
+      source: 'lighthouse',
+      format: 'lhr',
+      url: 'https://shop.example/home',
+      fetchTime: '2026-05-04T10:00:00.000Z',
+      formFactor: 'mobile',
+      toolVersion: '12.1.0',
+      accessibilityScore: 0.87
+    })
+  })
+
+  it('refuses Lighthouse versions it was not checked against', () => {
+    assert.throws(() => parseAuditInput(lhr({ lighthouseVersion: '9.6.8' })), {
+      message: 'Unsupported Lighthouse version 9.6.8. Supported versions: 10.x to 12.x.'
+    })
+  })
+
+  it('names the fields of a report that does not validate', () => {
+    assert.throws(() => parseAuditInput(lhr({ fetchTime: 42 })), {
+      message: 'Invalid Lighthouse report: fetchTime: Expected string, received number'
+    })
+  })
+
+  it('still accepts a bare map of audits', () => {
+    const input = parseAuditInput({ 'color-contrast': audit('color-contrast', 0) })
+
+    assert.deepEqual(Object.keys(input.audits), ['color-contrast'])
+    assert.deepEqual(input.metadata, { source: 'lighthouse', format: 'audit_map' })
+  })
+
+  it('refuses anything else', () => {
+    assert.throws(() => parseAuditInput([]), { message: 'Audit file must contain a JSON object.' })
+    assert.throws(
+      () => parseAuditInput({ 'color-contrast': { score: 2 } }),
+      error => {
+        assert.match(
+          (error as Error).message,
+          /^Audit file is neither a Lighthouse report nor a map of Lighthouse audits: color-contrast\./
+        )
+        return true
+      }
+    )
+  })
+})
+
+describe('decodeAuditFile', () => {
+  it('parses JSON, keeps XML as text and names the file it cannot read', () => {
+    assert.deepEqual(decodeAuditFile('{"a":1}', 'audit.json'), { a: 1 })
+    assert.equal(
+      decodeAuditFile('  <AccessibilityCheckResults/>', 'a.xml'),
+      '  <AccessibilityCheckResults/>'
+    )
+    assert.throws(() => decodeAuditFile('{', 'audits/home.json'), {
+      message: /^audits\/home\.json is not valid JSON: /
+    })
+  })
+})
@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseAuditInput } from '../util/audit_input'
+import { loadRegulations } from '../util/regulation_datasets'
+import { mapLighthouseToEAA } from '../util/score_logic'
+
+function rule(id: string, nodes: Array<{ target: Array<string | string[]>; html?: string }> = []) {
+  return {
+    id,
+    impact: 'serious',
+    tags: ['wcag2aa', 'wcag143'],
+    description: `${id} description`,
+    help: `${id} help`,
+    helpUrl: `https://dequeuniversity.com/rules/axe/4.9/${id}`,
+    nodes
+  }
+}
+
+const results = {
+  testEngine: { name: 'axe-core', version: '4.9.1' },
+  url: 'https://shop.example/checkout',
+  timestamp: '2026-05-04T10:00:00.000Z',
+  violations: [
+    rule('color-contrast', [
+      { target: ['.price'], html: '<span class="price">' },
+      { target: ['iframe#pay', ['my-widget', 'button.pay']] }
+    ])
+  ],
+  passes: [rule('color-contrast'), rule('image-alt')],
+  incomplete: [rule('link-in-text-block', [{ target: ['a.terms'] }])],
+  inapplicable: [rule('video-caption')]
+}
+
+describe('axe-core results', () => {
+  it('become Lighthouse-shaped audits with the run metadata', () => {
+    const input = parseAuditInput(results)
+
+    assert.deepEqual(input.metadata, {
+      source: 'axe',
+      format: 'axe_results',
+      url: 'https://shop.example/checkout',
+      fetchTime: '2026-05-04T10:00:00.000Z',
+      toolVersion: '4.9.1'
+    })
+    assert.equal(input.audits['image-alt'].score, 1)
+    assert.equal(input.audits['video-caption'].scoreDisplayMode, 'notApplicable')
+    assert.equal(
+      input.audits['image-alt'].description,
+      'image-alt description [Learn more](https://dequeuniversity.com/rules/axe/4.9/image-alt).'
+    )
+  })
+
+  it('lets a violation win over a pass of the same rule and flattens frame and shadow selectors', () => {
+    const contrast = parseAuditInput(results).audits['color-contrast']
+
+    assert.equal(contrast.score, 0)
+    assert.deepEqual(
+      contrast.details.items.map((item: { node: { selector: string } }) => item.node.selector),
+      ['.price', 'iframe#pay >>> my-widget >>> button.pay']
+    )
+  })
+
+  it('turns incomplete checks into manual audits that need a review', () => {
+    const { audits } = parseAuditInput(results)
+    assert.equal(audits['link-in-text-block'].score, null)
+    assert.equal(audits['link-in-text-block'].scoreDisplayMode, 'manual')
+
+    const { mappedResults } = mapLighthouseToEAA(
+      { 'link-in-text-block': audits['link-in-text-block'] },
+      loadRegulations()
+    )
+    const websites = mappedResults.requirements.find(req => req.requirement_id === 'A1.1')
+    assert.equal(websites?.status, 'needs_review')
+    assert.deepEqual(websites?.derived_from?.needs_review, ['link-in-text-block'])
+  })
+
+  it('names the fields of results that do not validate', () => {
+    assert.throws(() => parseAuditInput({ violations: [{ id: 'x' }] }), {
+      message: 'Invalid axe-core results: violations.0.help: Required'
+    })
+  })
+})
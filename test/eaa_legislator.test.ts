@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict'
+import { spawnSync } from 'node:child_process'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { after, describe, it } from 'node:test'
+
+// Runs the command line as CI would, through ts-node, and checks the exit code the gate relies on
+
+const root = join(__dirname, '..')
+const workDir = mkdtempSync(join(tmpdir(), 'eaa-legislator-'))
+
+function assess(...args: string[]) {
+  return spawnSync(
+    process.execPath,
+    ['-r', 'ts-node/register/transpile-only', 'bin/eaa-legislator.ts', 'assess', ...args],
+    { cwd: root, encoding: 'utf8', timeout: 60_000 }
+  )
+}
+
+describe('eaa-legislator assess policy', () => {
+  after(() => rmSync(workDir, { recursive: true, force: true }))
+
+  it('fails on HIGH requirements that are only partially compliant', () => {
+    // Some contrast and link-name elements fail while other audits mapped to A1.1 and A6.1 pass
+    const result = assess('--audit', 'util/audit_example.json', '--out', join(workDir, 'sample'))
+    assert.equal(result.status, 1, result.stderr)
+    assert.match(result.stderr, /A1\.1 \(HIGH\) is partially_compliant/)
+    assert.match(result.stderr, /A6\.1 \(HIGH\) is partially_compliant/)
+  })
+
+  it('fails on a native app touch target error', () => {
+    const audit = join(workDir, 'checkout.json')
+    writeFileSync(
+      audit,
+      JSON.stringify({
+        packageName: 'com.example.shop',
+        screen: 'Checkout',
+        results: [
+          {
+            checkClass: 'TouchTargetSizeCheck',
+            type: 'ERROR',
+            message: 'This item is 40dp high.',
+            element: { className: 'android.widget.ImageButton', resourceName: 'close' }
+          },
+          { checkClass: 'TextContrastCheck', type: 'INFO' }
+        ]
+      })
+    )
+    const applicability = join(workDir, 'applicability.json')
+    writeFileSync(applicability, JSON.stringify({ types: ['e_commerce'], channels: ['android'] }))
+
+    const result = assess(
+      '--audit',
+      audit,
+      '--applicability',
+      applicability,
+      '--out',
+      join(workDir, 'app')
+    )
+    assert.equal(result.status, 1, result.stderr)
+    assert.match(result.stderr, /A1\.2 \(HIGH\) is partially_compliant/)
+  })
+
+  it('keeps website requirements in scope when the profile names no channels', () => {
+    const applicability = join(workDir, 'types-only.json')
+    writeFileSync(applicability, JSON.stringify({ types: ['e_commerce'] }))
+    const out = join(workDir, 'types-only')
+
+    const result = assess(
+      '--audit',
+      'util/audit_example.json',
+      '--applicability',
+      applicability,
+      '--out',
+      out
+    )
+    assert.equal(result.status, 1, result.stderr)
+    assert.match(result.stderr, /A1\.1 \(HIGH\) is partially_compliant/)
+
+    const compliance = JSON.parse(readFileSync(join(out, 'compliance.json'), 'utf8'))
+    const a11 = compliance.mappedResults.requirements.find(
+      (req: { requirement_id: string }) => req.requirement_id === 'A1.1'
+    )
+    assert.equal(a11.status, 'partially_compliant')
+  })
+
+  it('passes when the failing criticalities are not gated', () => {
+    const result = assess(
+      '--audit',
+      'util/audit_example.json',
+      '--fail-on',
+      'none',
+      '--out',
+      join(workDir, 'ungated')
+    )
+    assert.equal(result.status, 0, result.stderr)
+  })
+})
@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict'
+import { readFileSync } from 'node:fs'
+import { describe, it } from 'node:test'
+import { createEvidenceBundle, EvidenceInput, verifyEvidenceBundle } from '../util/evidence_bundle'
+import { loadRegulations } from '../util/regulation_datasets'
+import { readTarGz, writeTarGz } from '../util/tar_archive'
+
+const audit = JSON.parse(readFileSync('util/audit_example.json', 'utf8'))
+const generatedAt = new Date('2025-07-01T12:00:00.000Z')
+
+function input(overrides: Partial<EvidenceInput> = {}): EvidenceInput {
+  return {
+    pages: [{ url: 'https://shop.example/', template: 'home', audit }],
+    regulations: loadRegulations(),
+    report: { format: 'markdown' },
+    ...overrides
+  }
+}
+
+// The bundle with one file replaced, or added when it was not there
+function rewrite(archive: Buffer, path: string, content: Buffer): Buffer {
+  const entries = readTarGz(archive, 10 * 1024 * 1024)
+  const replaced = entries.some(entry => entry.path === path)
+  return writeTarGz(
+    replaced
+      ? entries.map(entry => (entry.path === path ? { path, content } : entry))
+      : [...entries, { path, content }],
+    generatedAt
+  )
+}
+
+describe('evidence bundle', () => {
+  it('lists every input and output with its hash in the manifest', () => {
+    const { manifest } = createEvidenceBundle(input(), generatedAt)
+
+    assert.equal(manifest.format, 'eaa-evidence-bundle/v1')
+    assert.equal(manifest.assessment_date, '2025-07-01T12:00:00.000Z')
+    assert.deepEqual(manifest.pages, [
+      { url: 'https://shop.example/', template: 'home', file: 'inputs/audits/001.json' }
+    ])
+    assert.equal(manifest.regulations.dataset?.version, '1.2.0')
+    assert.deepEqual(
+      manifest.files.map(file => file.path),
+      [
+        'inputs/audits/001.json',
+        'inputs/regulations.json',
+        'inputs/mapping.json',
+        'inputs/scoring-profile.json',
+        'outputs/compliance.json',
+        'outputs/score.json',
+        'outputs/report.md'
+      ]
+    )
+    assert.ok(manifest.files.every(file => /^[0-9a-f]{64}$/.test(file.sha256)))
+  })
+
+  it('gives the same bytes for the same inputs', () => {
+    const first = createEvidenceBundle(input(), generatedAt)
+    const second = createEvidenceBundle(input(), generatedAt)
+
+    assert.ok(first.archive.equals(second.archive))
+    assert.equal(first.sha256, second.sha256)
+  })
+
+  it('verifies by running the assessment again from the bundled inputs', () => {
+    const bundle = createEvidenceBundle(input(), generatedAt)
+    const verification = verifyEvidenceBundle(bundle.archive)
+
+    assert.deepEqual(verification.problems, [])
+    assert.equal(verification.ok, true)
+    assert.equal(verification.sha256, bundle.sha256)
+  })
+
+  it('reports changed and unlisted files', () => {
+    const { archive } = createEvidenceBundle(input(), generatedAt)
+    const changed = rewrite(archive, 'outputs/report.md', Buffer.from('# Edited\n'))
+    const extra = rewrite(archive, 'notes.txt', Buffer.from('unlisted'))
+
+    assert.deepEqual(verifyEvidenceBundle(changed).problems, [
+      'outputs/report.md does not match its SHA-256 in the manifest',
+      'outputs/report.md differs from the report rendered again'
+    ])
+    assert.deepEqual(verifyEvidenceBundle(extra).problems, [
+      'notes.txt is not listed in the manifest'
+    ])
+  })
+
+  it('refuses archives that are not evidence bundles', () => {
+    const archive = writeTarGz([{ path: 'readme.txt', content: Buffer.from('hi') }], generatedAt)
+
+    assert.throws(
+      () => verifyEvidenceBundle(archive),
+      /Not an evidence bundle: manifest\.json is missing\./
+    )
+    assert.throws(() => verifyEvidenceBundle(Buffer.from('plain')), /Not a gzipped archive/)
+  })
+})
+
+describe('tar archive', () => {
+  it('reads back what it wrote', () => {
+    const entries = [
+      { path: 'a.json', content: Buffer.from('{}') },
+      { path: 'dir/b.txt', content: Buffer.alloc(700, 'x') }
+    ]
+
+    assert.deepEqual(readTarGz(writeTarGz(entries, generatedAt), 1024 * 1024), entries)
+  })
+
+  it('keeps paths inside the archive', () => {
+    assert.throws(
+      () => writeTarGz([{ path: '../escape', content: Buffer.alloc(0) }], generatedAt),
+      /must be relative and stay inside the archive/
+    )
+    assert.throws(
+      () => writeTarGz([{ path: '/etc/passwd', content: Buffer.alloc(0) }], generatedAt),
+      /must be relative and stay inside the archive/
+    )
+  })
+})
@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { applyExemptionClaims, ExemptionClaim } from '../util/exemptions'
+import { EAAGuidelines } from '../util/score_logic'
+
+function regulations(): EAAGuidelines {
+  return {
+    directive: 'Directive (EU) 2019/882',
+    requirements: [
+      {
+        requirement_id: 'A5.1',
+        description: 'Support services must provide accessibility information.',
+        category: 'Support Services',
+        criticality: 'MEDIUM',
+        legal_reference: 'Annex I, Section IV',
+        status: 'non_compliant',
+        exemptible: true
+      },
+      {
+        requirement_id: 'A1.1',
+        description: 'Websites must be perceivable, operable, understandable, and robust.',
+        category: 'Web Accessibility',
+        criticality: 'HIGH',
+        legal_reference: 'Annex I, Section I',
+        status: 'non_compliant',
+        exemptible: false
+      }
+    ]
+  }
+}
+
+function claim(overrides: Partial<ExemptionClaim> = {}): ExemptionClaim {
+  return {
+    requirement_id: 'A5.1',
+    legal_basis: 'disproportionate_burden',
+    justification: 'Annex VI assessment of 2024',
+    assessed_at: '2024-06-30',
+    renew_by: '2026-06-30',
+    ...overrides
+  }
+}
+
+describe('applyExemptionClaims', () => {
+  it('applies a claim until the end of its renewal day', () => {
+    const mappedResults = regulations()
+    const { applied, rejected } = applyExemptionClaims(
+      mappedResults,
+      [claim()],
+      new Date('2026-06-30T18:30:00Z')
+    )
+
+    assert.equal(applied.length, 1)
+    assert.deepEqual(rejected, [])
+    assert.equal(mappedResults.requirements[0].status, 'exempted')
+    assert.equal(
+      mappedResults.requirements[0].exemption?.legal_reference,
+      applied[0].legal_reference
+    )
+  })
+
+  it('rejects the claim as expired the day after', () => {
+    const mappedResults = regulations()
+    const { applied, rejected } = applyExemptionClaims(
+      mappedResults,
+      [claim()],
+      new Date('2026-07-01T00:00:00Z')
+    )
+
+    assert.deepEqual(applied, [])
+    assert.deepEqual(
+      rejected.map(item => item.reason),
+      ['expired']
+    )
+    assert.equal(mappedResults.requirements[0].status, 'non_compliant')
+  })
+
+  it('rejects claims on requirements that cannot be exempted or periods that are too long', () => {
+    const { rejected } = applyExemptionClaims(
+      regulations(),
+      [
+        claim({ requirement_id: 'A1.1' }),
+        claim({ renew_by: '2030-01-01' }),
+        claim({ requirement_id: 'A9.9' })
+      ],
+      new Date('2025-01-01T00:00:00Z')
+    )
+
+    assert.deepEqual(
+      rejected.map(item => item.reason),
+      ['not_exemptible', 'invalid_period', 'unknown_requirement']
+    )
+  })
+})
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { complianceSchema } from '../util/compliance'
+import { localiseRegulations, translator } from '../util/i18n'
+import { loadRegulations } from '../util/regulation_datasets'
+import { buildComplianceReport } from '../util/report_renderer'
+import { calculateComplianceScore } from '../util/scoring'
+
+describe('localiseRegulations', () => {
+  it('keeps the English texts and puts the translation next to them', () => {
+    const regulations = localiseRegulations(loadRegulations(), 'de')
+    const websites = regulations.requirements.find(req => req.requirement_id === 'A1.1')
+
+    assert.equal(regulations.locale, 'de')
+    assert.equal(websites?.category, 'Web Accessibility')
+    assert.equal(
+      websites?.description,
+      'Websites must be perceivable, operable, understandable, and robust.'
+    )
+    assert.deepEqual(websites?.translation, {
+      description: 'Websites müssen wahrnehmbar, bedienbar, verständlich und robust sein.',
+      category: 'Barrierefreiheit von Websites'
+    })
+  })
+
+  it('adds no translation for English', () => {
+    const regulations = localiseRegulations(loadRegulations(), 'en')
+
+    assert.equal(regulations.locale, 'en')
+    assert.ok(regulations.requirements.every(req => req.translation === undefined))
+  })
+
+  it('renders a report in another language than the regulations were fetched in', () => {
+    // As run-comparison would hand it off, read back through the schema
+    const compliance = complianceSchema.parse({
+      mappedResults: localiseRegulations(loadRegulations(), 'de')
+    })
+
+    const english = buildComplianceReport(compliance, undefined, 'en')
+    assert.equal(english.requirements[0].category, 'Web Accessibility')
+    assert.match(english.requirements[0].description, /^Websites must be/)
+
+    // Without an explicit locale the report is in the language the regulations were fetched in
+    const german = buildComplianceReport(compliance)
+    assert.equal(german.locale, 'de')
+    assert.equal(german.requirements[0].category, 'Barrierefreiheit von Websites')
+  })
+
+  it('scores the same categories whatever the fetch language', () => {
+    const categories = (locale: 'en' | 'de' | 'fr') =>
+      Object.keys(
+        calculateComplianceScore(
+          complianceSchema.parse({ mappedResults: localiseRegulations(loadRegulations(), locale) })
+        ).categories
+      )
+
+    assert.deepEqual(categories('de'), categories('en'))
+    assert.deepEqual(categories('fr'), categories('en'))
+  })
+})
+
+describe('translator', () => {
+  it('fills placeholders and falls back to the key for unknown categories', () => {
+    const t = translator('de')
+
+    assert.equal(t.category('Not a category'), 'Not a category')
+    assert.match(t.text('report.title', { directive: 'EU 2019/882' }), /\(EU 2019\/882\)/)
+    assert.notEqual(t.text('report.requirements'), translator('en').text('report.requirements'))
+  })
+})
@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { issueFingerprint, issuesFromAudit, mergeIssues, normaliseSelector } from '../util/issues'
+
+const linkName = {
+  title: 'Links do not have a discernible name',
+  description: 'Link text is needed.',
+  details: {
+    items: [
+      { node: { selector: 'nav > a.logo', snippet: '<a class="logo">', nodeLabel: 'Logo' } },
+      { node: { selector: 'nav>a.logo', snippet: '<a class="logo">' } },
+      { selector: 'footer a', snippet: '<a>', explanation: 'Fix any of the following' }
+    ]
+  }
+}
+
+describe('issue fingerprints', () => {
+  it('normalises what changes between builds but not the element', () => {
+    assert.equal(normaliseSelector('nav  >  ul li+li'), 'nav > ul li + li')
+    assert.equal(normaliseSelector('.css-1x2y3z.btn'), '.btn')
+    assert.equal(normaliseSelector('.sc-abc123.hero'), '.hero')
+    assert.equal(normaliseSelector('button.__className_a1b2c3'), 'button')
+    assert.equal(normaliseSelector('.Header_title__a1B2c'), '.Header_title')
+    assert.equal(normaliseSelector('.card__title'), '.card__title')
+  })
+
+  it('stays the same across builds, query strings and fragments', () => {
+    const fingerprint = issueFingerprint(
+      'link-name',
+      'div>a.css-1x2y3z',
+      'https://Shop.example/cart/'
+    )
+
+    assert.match(fingerprint, /^[0-9a-f]{16}$/)
+    assert.equal(
+      issueFingerprint('link-name', 'div > a.css-9q8w7e', 'https://shop.example/cart?utm=x#top'),
+      fingerprint
+    )
+    assert.notEqual(issueFingerprint('link-name', 'div > a', 'https://shop.example/'), fingerprint)
+    assert.notEqual(
+      issueFingerprint('image-alt', 'div > a', 'https://shop.example/cart'),
+      fingerprint
+    )
+  })
+
+  it('records one issue per element with its evidence', () => {
+    const issues = issuesFromAudit('link-name', linkName, ['A1.1', 'A6.1'], 'https://shop.example/')
+
+    assert.equal(issues.length, 2)
+    assert.deepEqual(issues[0], {
+      fingerprint: issueFingerprint('link-name', 'nav > a.logo', 'https://shop.example/'),
+      audit_id: 'link-name',
+      title: 'Links do not have a discernible name',
+      description: 'Link text is needed.',
+      url: 'https://shop.example/',
+      selector: 'nav > a.logo',
+      requirement_ids: ['A1.1', 'A6.1'],
+      evidence: { snippet: '<a class="logo">', node_label: 'Logo', explanation: '' }
+    })
+    assert.deepEqual(issues[1].evidence, {
+      snippet: '<a>',
+      node_label: '',
+      explanation: 'Fix any of the following'
+    })
+  })
+
+  it('records one issue for the page when the audit names no elements', () => {
+    const issues = issuesFromAudit('document-title', { title: 'No title', description: '' }, [
+      'A1.1'
+    ])
+
+    assert.equal(issues.length, 1)
+    assert.equal(issues[0].selector, '')
+    assert.equal(issues[0].fingerprint, issueFingerprint('document-title', ''))
+  })
+
+  it('merges issues with the same fingerprint and combines their requirements', () => {
+    const [first] = issuesFromAudit('link-name', linkName, ['A1.1'], 'https://shop.example/')
+    const [second] = issuesFromAudit(
+      'link-name',
+      linkName,
+      ['A6.1', 'A1.1'],
+      'https://shop.example/'
+    )
+
+    const merged = mergeIssues([first, second])
+
+    assert.equal(merged.length, 1)
+    assert.deepEqual(merged[0].requirement_ids, ['A1.1', 'A6.1'])
+    assert.deepEqual(first.requirement_ids, ['A1.1'])
+  })
+})
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { applyJurisdiction, BASE_JURISDICTION, loadJurisdictions } from '../util/jurisdiction'
+import { loadRegulations } from '../util/regulation_datasets'
+
+function requirement(code: string, requirementId: string) {
+  return applyJurisdiction(loadRegulations(), code).requirements.find(
+    req => req.requirement_id === requirementId
+  )
+}
+
+describe('applyJurisdiction', () => {
+  it('adds the national reference the profile names for a requirement', () => {
+    const exemptions = requirement('DE', 'A9.1')
+
+    assert.equal(exemptions?.legal_reference, 'Annex VI')
+    assert.equal(exemptions?.national_reference, '§§ 16 and 17 BFSG')
+  })
+
+  it('leaves requirements without a named provision to the legislation as a whole', () => {
+    Object.keys(loadJurisdictions()).forEach(code => {
+      const profiled = applyJurisdiction(loadRegulations(), code)
+      const references = loadJurisdictions()[code].references
+
+      assert.ok(profiled.jurisdiction?.legislation.length)
+      profiled.requirements
+        .filter(req => !references[req.requirement_id])
+        .forEach(req =>
+          assert.equal(req.national_reference, undefined, `${code} ${req.requirement_id}`)
+        )
+    })
+  })
+
+  it('shortens the German transition for self-service terminals', () => {
+    const profiled = applyJurisdiction(loadRegulations(), 'DE')
+
+    assert.equal(profiled.transitions?.self_service_terminals.max_years, 15)
+    assert.equal(profiled.transitions?.self_service_terminals.legal_reference, '§ 38(2) BFSG')
+    assert.match(profiled.jurisdiction?.enforcement_body?.name || '', /^Marktüberwachungsstelle/)
+  })
+
+  it('records the directive itself for EU and refuses to layer a second member state', () => {
+    const eu = applyJurisdiction(loadRegulations(), BASE_JURISDICTION)
+    assert.equal(eu.jurisdiction?.name, 'European Union')
+    assert.ok(eu.requirements.every(req => req.national_reference === undefined))
+
+    const germany = applyJurisdiction(eu, 'DE')
+    assert.equal(applyJurisdiction(germany, 'DE'), germany)
+    assert.throws(() => applyJurisdiction(germany, 'FR'), {
+      message: 'The regulations were already profiled for DE; fetch them again for FR.'
+    })
+    assert.throws(() => applyJurisdiction(eu, 'XX'), /Unknown jurisdiction "XX"/)
+  })
+})
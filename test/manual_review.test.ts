@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  buildReviewChecklist,
+  findAttestation,
+  ManualAttestation,
+  upsertAttestation
+} from '../util/manual_review'
+import { loadRegulations } from '../util/regulation_datasets'
+import { LighthouseAudit, mapLighthouseToEAA } from '../util/score_logic'
+
+function attestation(overrides: Partial<ManualAttestation> = {}): ManualAttestation {
+  return {
+    audit_id: 'video-caption',
+    result: 'pass',
+    notes: '',
+    tester: 'a11y-lead',
+    reviewed_at: '2026-05-01',
+    ...overrides
+  }
+}
+
+const manualAudit: LighthouseAudit = {
+  id: 'video-caption',
+  title: 'Videos have captions',
+  description: '',
+  score: null,
+  scoreDisplayMode: 'manual'
+}
+
+function websites(attestations: ManualAttestation[]) {
+  const { mappedResults } = mapLighthouseToEAA(
+    { 'video-caption': manualAudit },
+    loadRegulations(),
+    attestations,
+    'https://shop.example/video'
+  )
+  return mappedResults.requirements.find(req => req.requirement_id === 'A1.1')
+}
+
+describe('manual review', () => {
+  it('leaves an audit no tool could decide to a person instead of exempting it', () => {
+    const requirement = websites([])
+
+    assert.equal(requirement?.status, 'needs_review')
+    assert.deepEqual(requirement?.derived_from?.needs_review, ['video-caption'])
+  })
+
+  it('takes the tester verdict once there is one', () => {
+    assert.equal(websites([attestation()])?.status, 'compliant')
+    assert.equal(websites([attestation({ result: 'fail' })])?.status, 'non_compliant')
+    assert.deepEqual(websites([attestation()])?.derived_from?.reviewed, ['video-caption'])
+  })
+
+  it('prefers a verdict for the page, then the latest one', () => {
+    const siteWide = attestation({ reviewed_at: '2026-06-01' })
+    const forPage = attestation({ url: 'https://shop.example/video', result: 'fail' })
+
+    assert.equal(findAttestation([siteWide, forPage], 'video-caption', forPage.url), forPage)
+    assert.equal(
+      findAttestation([siteWide, forPage], 'video-caption', 'https://shop.example/'),
+      siteWide
+    )
+    assert.equal(
+      findAttestation([attestation(), siteWide], 'video-caption', 'https://shop.example/'),
+      siteWide
+    )
+  })
+
+  it('replaces the verdict for the same audit and page', () => {
+    const retest = attestation({ result: 'fail', reviewed_at: '2026-06-01' })
+    const other = attestation({ url: 'https://shop.example/video' })
+
+    assert.deepEqual(upsertAttestation([attestation(), other], retest), [other, retest])
+  })
+
+  it('lists the open and decided checks per page with the requirements they feed', () => {
+    const checklist = buildReviewChecklist(
+      [
+        {
+          url: 'https://shop.example/video',
+          input: {
+            audits: { 'video-caption': manualAudit },
+            metadata: { source: 'lighthouse', format: 'audit_map' }
+          }
+        }
+      ],
+      loadRegulations(),
+      [attestation({ result: 'fail' })]
+    )
+
+    assert.equal(checklist.length, 1)
+    assert.equal(checklist[0].status, 'failed')
+    assert.deepEqual(checklist[0].requirements, ['A1.1'])
+    assert.deepEqual(checklist[0].wcag, ['1.2.2'])
+  })
+})
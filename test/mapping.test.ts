@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { criteriaFromTags, loadEAAMapping, parseEAAMapping, traceRule } from '../util/mapping'
+import { loadRegulations } from '../util/regulation_datasets'
+import { LighthouseAudit, mapLighthouseToEAA } from '../util/score_logic'
+
+const mapping = loadEAAMapping()
+const requirementIds = new Set(loadRegulations().requirements.map(req => req.requirement_id))
+
+function audit(id: string, score: number, tags: string[] = []): LighthouseAudit {
+  return {
+    id,
+    title: id,
+    description: '',
+    score,
+    scoreDisplayMode: 'binary',
+    details: { type: 'table', items: [{ node: { selector: `.${id}` } }], debugData: { tags } }
+  }
+}
+
+describe('traceRule', () => {
+  it('follows a rule through its criteria and clauses to the requirements', () => {
+    assert.deepEqual(traceRule('color-contrast', mapping, requirementIds), {
+      wcag: ['1.4.3'],
+      en301549: ['9.1.4.3'],
+      requirements: ['A1.1']
+    })
+    assert.deepEqual(traceRule('link-name', mapping, requirementIds), {
+      wcag: ['2.4.4', '4.1.2'],
+      en301549: ['9.2.4.4', '9.4.1.2'],
+      requirements: ['A1.1', 'A6.1']
+    })
+  })
+
+  it('prefers the criteria the audit engine tagged the rule with', () => {
+    const trace = traceRule('color-contrast', mapping, requirementIds, ['wcag2aa', 'wcag1411'])
+
+    assert.ok(typeof trace !== 'string')
+    assert.deepEqual(trace.wcag, ['1.4.11'])
+  })
+
+  it('says why a rule does not count towards any requirement', () => {
+    assert.equal(traceRule('no-such-rule', mapping, requirementIds), 'unknown_rule')
+    assert.equal(
+      traceRule('no-such-rule', mapping, requirementIds, ['best-practice']),
+      'no_wcag_criterion'
+    )
+    assert.equal(traceRule('accesskeys', mapping, requirementIds), 'no_wcag_criterion')
+    // 2.4.9 is AAA, which EN 301 549 does not require
+    assert.equal(
+      traceRule('identical-links-same-purpose', mapping, requirementIds),
+      'no_en301549_clause'
+    )
+    assert.equal(traceRule('color-contrast', mapping, new Set(['A6.1'])), 'no_eaa_requirement')
+  })
+})
+
+describe('criteriaFromTags', () => {
+  it('reads success criteria from axe tags and skips level tags', () => {
+    assert.deepEqual(criteriaFromTags(['wcag2aa', 'wcag143', 'wcag21a', 'wcag1410', 'cat.color']), [
+      '1.4.3',
+      '1.4.10'
+    ])
+  })
+})
+
+describe('parseEAAMapping', () => {
+  it('accepts the bundled dataset', () => {
+    assert.equal(parseEAAMapping(JSON.parse(JSON.stringify(mapping))).version, mapping.version)
+  })
+
+  it('names every reference that points nowhere', () => {
+    const broken = JSON.parse(JSON.stringify(mapping))
+    broken.rules['color-contrast'] = ['9.9.9']
+    broken.criteria['1.4.3'].en301549 = ['9.9.9.9']
+
+    assert.throws(() => parseEAAMapping(broken), {
+      message: `Invalid EAA mapping dataset ${mapping.version}: rule "color-contrast" references unknown criterion 9.9.9; criterion 1.4.3 references unknown clause 9.9.9.9`
+    })
+  })
+
+  it('refuses a rule listed as both web and native', () => {
+    const broken = JSON.parse(JSON.stringify(mapping))
+    broken.native_rules['color-contrast'] = ['1.4.3']
+
+    assert.throws(
+      () => parseEAAMapping(broken),
+      /"color-contrast" is listed as both a web and a native rule/
+    )
+  })
+})
+
+describe('mobile app requirement A1.2', () => {
+  it('is never reached from a web rule', () => {
+    Object.keys(mapping.rules).forEach(ruleId => {
+      const trace = traceRule(ruleId, mapping, requirementIds)
+      if (typeof trace === 'string') return
+      assert.ok(!trace.requirements.includes('A1.2'), `${ruleId} maps to A1.2`)
+    })
+  })
+
+  it('is only reached through the software clauses', () => {
+    Object.entries(mapping.clauses)
+      .filter(([, clause]) => clause.requirements.includes('A1.2'))
+      .forEach(([id]) => assert.match(id, /^11\./))
+  })
+
+  it('is left alone by a website audit with viewport, target size and keyboard trap failures', () => {
+    const { mappedResults } = mapLighthouseToEAA(
+      {
+        'meta-viewport': audit('meta-viewport', 0),
+        'target-size': audit('target-size', 0),
+        // axe's tags name the criterion for rules the dataset does not list
+        'focus-trap': audit('focus-trap', 0, ['wcag2a', 'wcag212']),
+        'color-contrast': audit('color-contrast', 1)
+      },
+      loadRegulations()
+    )
+    const a11 = mappedResults.requirements.find(req => req.requirement_id === 'A1.1')
+    const a12 = mappedResults.requirements.find(req => req.requirement_id === 'A1.2')
+
+    assert.equal(a11?.status, 'partially_compliant')
+    assert.equal(a12?.status, 'pending')
+  })
+
+  it('is reached from native rules, which never count towards the website requirement', () => {
+    Object.keys(mapping.native_rules).forEach(ruleId => {
+      const trace = traceRule(ruleId, mapping, requirementIds)
+      if (typeof trace === 'string') return
+      assert.ok(trace.requirements.includes('A1.2'), `${ruleId} does not map to A1.2`)
+      assert.ok(!trace.requirements.includes('A1.1'), `${ruleId} maps to A1.1`)
+    })
+  })
+})
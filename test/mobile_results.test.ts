@@ -0,0 +1,154 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseAuditInput } from '../util/audit_input'
+import { appScreenUrl, atfXmlToJson } from '../util/mobile_results'
+
+const atfResults = {
+  atfVersion: '4.1.1',
+  packageName: 'com.example.shop',
+  screen: 'Checkout',
+  timestamp: '2025-07-01T09:00:00Z',
+  results: [
+    {
+      checkClass:
+        'com.google.android.apps.common.testing.accessibility.framework.checks.TouchTargetSizeCheck',
+      type: 'ERROR',
+      message: 'This item may not have a touch target size of at least 48dp x 48dp.',
+      element: {
+        className: 'android.widget.ImageButton',
+        resourceName: 'com.example.shop:id/close',
+        contentDescription: 'Close',
+        boundsInScreen: { left: 0, top: 0, right: 96, bottom: 96 }
+      }
+    },
+    { checkClass: 'TouchTargetSizeCheck', type: 'RESOLVED' },
+    { checkClass: 'TextContrastCheck', type: 'WARNING', message: 'Contrast could not be checked.' },
+    { checkClass: 'SpeakableTextPresentCheck', type: 'INFO' },
+    { checkClass: 'TraversalOrderCheck', type: 'NOT_RUN' }
+  ]
+}
+
+const atfXml = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- exported by the scanner -->
+<AccessibilityCheckResults atfVersion="4.1.1" packageName="com.example.shop" screen="Checkout">
+  <result checkClass="TouchTargetSizeCheck" type="ERROR" message="Too small &amp; hard to hit">
+    <element className="android.widget.ImageButton" resourceName="com.example.shop:id/close"
+             contentDescription="Close" bounds="[0,0][96,96]"/>
+  </result>
+  <result checkClass="SpeakableTextPresentCheck" type="INFO"/>
+</AccessibilityCheckResults>`
+
+describe('mobile results', () => {
+  it('reads ATF results as one audit per check', () => {
+    const { audits, metadata } = parseAuditInput(atfResults)
+
+    assert.deepEqual(metadata, {
+      source: 'atf',
+      format: 'atf_json',
+      url: 'android-app://com.example.shop/Checkout',
+      fetchTime: '2025-07-01T09:00:00Z',
+      formFactor: 'mobile',
+      toolVersion: '4.1.1'
+    })
+    assert.deepEqual(
+      Object.values(audits).map(audit => [audit.id, audit.score, audit.scoreDisplayMode]),
+      [
+        ['atf-touch-target-size', 0, 'binary'],
+        ['atf-text-contrast', null, 'manual'],
+        ['atf-speakable-text-present', 1, 'binary'],
+        ['atf-traversal-order', null, 'notApplicable']
+      ]
+    )
+    assert.equal(audits['atf-touch-target-size'].title, 'Touch targets are large enough')
+  })
+
+  it('keeps the element an ATF check names as evidence, located by its resource name', () => {
+    const { audits } = parseAuditInput(atfResults)
+
+    assert.deepEqual(audits['atf-touch-target-size'].details.items, [
+      {
+        node: {
+          type: 'node',
+          selector: 'android.widget.ImageButton#com.example.shop:id/close',
+          snippet:
+            '<android.widget.ImageButton resource-id="com.example.shop:id/close" content-desc="Close" bounds="[0,0][96,96]">',
+          nodeLabel: 'Close',
+          explanation: 'This item may not have a touch target size of at least 48dp x 48dp.'
+        }
+      }
+    ])
+    assert.equal(audits['atf-text-contrast'].details.items[0].node.selector, '')
+  })
+
+  it('reads the XML form of ATF results into the same shape', () => {
+    const { audits, metadata } = parseAuditInput(atfXml)
+
+    assert.equal(metadata.format, 'atf_xml')
+    assert.equal(audits['atf-touch-target-size'].score, 0)
+    assert.deepEqual(audits['atf-touch-target-size'].details.items[0].node, {
+      type: 'node',
+      selector: 'android.widget.ImageButton#com.example.shop:id/close',
+      snippet:
+        '<android.widget.ImageButton resource-id="com.example.shop:id/close" content-desc="Close" bounds="[0,0][96,96]">',
+      nodeLabel: 'Close',
+      explanation: 'Too small & hard to hit'
+    })
+  })
+
+  it('refuses XML it does not expect', () => {
+    assert.throws(
+      () => atfXmlToJson('<!DOCTYPE x [<!ENTITY e "e">]><AccessibilityCheckResults/>'),
+      /DOCTYPE are not accepted/
+    )
+    assert.throws(() => atfXmlToJson('<Results/>'), /Expected an <AccessibilityCheckResults>/)
+    assert.throws(
+      () =>
+        atfXmlToJson(
+          '<AccessibilityCheckResults packageName="a"><result checkClass="X" type="ERROR"><element bounds="0,0,1,1"/></result></AccessibilityCheckResults>'
+        ),
+      /Invalid element bounds "0,0,1,1"/
+    )
+    assert.throws(
+      () => parseAuditInput('<AccessibilityCheckResults packageName="a"><result>'),
+      /Invalid Accessibility Test Framework XML: XML ends before <\/result>\./
+    )
+  })
+
+  it('reads an XCUITest audit as one audit per audit type that ran', () => {
+    const { audits, metadata } = parseAuditInput({
+      bundleIdentifier: 'com.example.Shop',
+      screen: 'Cart view',
+      xcodeVersion: '16.0',
+      auditTypes: ['all'],
+      issues: [
+        {
+          auditType: 'hitRegion',
+          compactDescription: 'Hit region is too small',
+          element: {
+            elementType: 'button',
+            label: 'Remove',
+            frame: { x: 10, y: 20, width: 24, height: 24 }
+          }
+        }
+      ]
+    })
+
+    assert.equal(metadata.url, 'ios-app://com.example.Shop/Cart%20view')
+    assert.equal(metadata.source, 'xcuitest')
+    assert.equal(Object.keys(audits).length, 9)
+    assert.equal(audits['xcui-contrast'].score, 1)
+    assert.equal(audits['xcui-hit-region'].score, 0)
+    assert.deepEqual(audits['xcui-hit-region'].details.items[0].node, {
+      type: 'node',
+      selector: 'button[label="Remove"]',
+      snippet: "button, label: 'Remove', frame: {{10, 20}, {24, 24}}",
+      nodeLabel: 'Remove',
+      explanation: 'Hit region is too small'
+    })
+  })
+
+  it('names app screens like pages', () => {
+    assert.equal(appScreenUrl('android', 'com.example'), 'android-app://com.example')
+    assert.equal(appScreenUrl('ios', 'com.example', 'Log in'), 'ios-app://com.example/Log%20in')
+  })
+})
@@ -0,0 +1,191 @@
+import assert from 'node:assert/strict'
+import { createHash } from 'node:crypto'
+import { beforeEach, describe, it, mock } from 'node:test'
+import {
+  memoryNarrativeCache,
+  NarrativeCache,
+  NarrativeMessage,
+  NarrativeModel,
+  PROMPT_VERSION,
+  templateNarrative,
+  writeNarrative
+} from '../util/narrative'
+import { ActionableInsight, ComplianceReport } from '../util/report_renderer'
+
+const ANSWER =
+  '#### Fix steps\n\n1. Add a label.\n\n#### Acceptance criteria\n\n- The button has a label.'
+
+// Stands in for the model: answers with `reply` and records every prompt it was sent
+function fakeModel(reply: (messages: NarrativeMessage[]) => string | undefined = () => ANSWER) {
+  const calls: NarrativeMessage[][] = []
+  const model: NarrativeModel = {
+    async complete(messages) {
+      calls.push(messages)
+      return reply(messages)
+    }
+  }
+  return { model, calls }
+}
+
+function insight(index: number, requirementId = 'A1.1'): ActionableInsight {
+  return {
+    fingerprint: `fp${index}`,
+    requirement_id: requirementId,
+    criticality: 'HIGH',
+    status: 'non_compliant',
+    page: 'https://shop.example/checkout',
+    audit_id: 'button-name',
+    issue: 'Buttons do not have an accessible name',
+    failing_element: `<button class="buy-${index}">`,
+    selector: `button.buy-${index}`,
+    explanation: 'Element does not have inner text that is visible to screen readers',
+    suggestion: 'Give the button a name.'
+  }
+}
+
+function report(insights: ActionableInsight[]): ComplianceReport {
+  const requirements = [
+    {
+      requirement_id: 'A1.1',
+      description: 'Websites must be perceivable, operable, understandable, and robust.',
+      category: 'Web Accessibility',
+      criticality: 'HIGH' as const,
+      legal_reference: 'Annex I, Section I',
+      status: 'non_compliant' as const
+    }
+  ]
+  return {
+    locale: 'en',
+    directive: 'Directive (EU) 2019/882',
+    summary: {
+      non_compliant: requirements,
+      partially_compliant: [],
+      needs_review: [],
+      compliant: [],
+      exempted: [],
+      pending: [],
+      not_applicable: []
+    },
+    requirements,
+    upcoming_deadlines: [],
+    actionable_insights: insights,
+    waived_findings: [],
+    waiver_warnings: []
+  }
+}
+
+describe('writeNarrative', () => {
+  beforeEach(() => {
+    mock.method(console, 'error', () => undefined)
+  })
+
+  it('uses the model answer when it has both sections', async () => {
+    const { model, calls } = fakeModel()
+    const narrative = await writeNarrative(report([insight(1)]), model)
+
+    assert.equal(calls.length, 1)
+    assert.deepEqual(narrative?.fallbacks, [])
+    assert.match(narrative!.text, /^### Requirement A1\.1: Websites/)
+    assert.ok(narrative!.text.includes(ANSWER))
+  })
+
+  it('falls back to the template when a section is missing', async () => {
+    const { model } = fakeModel(() => '#### Fix steps\n\n1. Add a label.')
+    const narrative = await writeNarrative(report([insight(1)]), model)
+
+    assert.deepEqual(narrative?.fallbacks, ['A1.1'])
+    assert.ok(narrative!.text.includes(templateNarrative([insight(1)])))
+    assert.ok(!narrative!.text.includes('1. Add a label.'))
+  })
+
+  it('falls back to the template when the model throws', async () => {
+    const model: NarrativeModel = {
+      async complete() {
+        throw new Error('rate limited')
+      }
+    }
+    const narrative = await writeNarrative(report([insight(1)]), model)
+
+    assert.deepEqual(narrative?.fallbacks, ['A1.1'])
+    assert.ok(narrative!.text.includes(templateNarrative([insight(1)])))
+  })
+
+  it('serves a second call with the same input from the cache', async () => {
+    const { model, calls } = fakeModel()
+    const cache = memoryNarrativeCache()
+
+    const first = await writeNarrative(report([insight(1)]), model, { cache })
+    const second = await writeNarrative(report([insight(1)]), model, { cache })
+
+    assert.equal(calls.length, 1)
+    assert.equal(first?.cached, 0)
+    assert.equal(second?.cached, 1)
+    assert.equal(second?.text, first?.text)
+  })
+
+  it('keys the cache on the prompt version, instructions and prompt', async () => {
+    const { model, calls } = fakeModel()
+    const keys: string[] = []
+    const cache: NarrativeCache = {
+      async get(key) {
+        keys.push(key)
+        return undefined
+      },
+      async set() {}
+    }
+
+    await writeNarrative(report([insight(1)]), model, { cache })
+
+    const [system, user] = calls[0].map(message => message.content)
+    const expected = createHash('sha256')
+      .update(`${PROMPT_VERSION}\n${system}\n${user}`)
+      .digest('hex')
+    assert.deepEqual(keys, [expected])
+  })
+
+  it('does not cache rejected answers', async () => {
+    let answer = 'no sections at all'
+    const { model, calls } = fakeModel(() => answer)
+    const cache = memoryNarrativeCache()
+
+    await writeNarrative(report([insight(1)]), model, { cache })
+    answer = ANSWER
+    const retried = await writeNarrative(report([insight(1)]), model, { cache })
+
+    assert.equal(calls.length, 2)
+    assert.deepEqual(retried?.fallbacks, [])
+  })
+
+  it('splits a large audit into chunks and merges the answers in order', async () => {
+    const insights = Array.from({ length: 30 }, (_, index) => insight(index))
+    const { model, calls } = fakeModel(messages => {
+      // Answer with the selectors the chunk was about, so the merged text shows the order
+      const selectors = messages[1].content.match(/button\.buy-\d+/g) || []
+      return `#### Fix steps\n\n1. Fix ${selectors.join(', ')}\n\n#### Acceptance criteria\n\n- Done.`
+    })
+
+    const narrative = await writeNarrative(report(insights), model, { maxChunkChars: 2000 })
+
+    assert.ok(calls.length > 1, `expected several chunks, got ${calls.length}`)
+    assert.equal(narrative?.chunks, calls.length)
+    calls.forEach(messages => assert.ok(messages[1].content.length <= 2000))
+
+    // Every element is covered exactly once, in the order of the findings
+    const covered = narrative!.text.match(/button\.buy-\d+/g)
+    assert.deepEqual(
+      covered,
+      insights.map(item => item.selector)
+    )
+    // One requirement heading above all the merged chunks
+    assert.equal(narrative!.text.match(/^### /gm)?.length, 1)
+  })
+
+  it('writes nothing when no requirement fails', async () => {
+    const { model, calls } = fakeModel()
+    const passing = report([])
+    passing.requirements = passing.requirements.map(req => ({ ...req, status: 'compliant' }))
+
+    assert.equal(await writeNarrative(passing, model), undefined)
+    assert.equal(calls.length, 0)
+  })
+})
@@ -0,0 +1,144 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  DEFAULT_PIPELINE,
+  orderPipelineSteps,
+  Pipeline,
+  pipelineSchema,
+  PipelineState,
+  pipelineTask,
+  planPipelineRun
+} from '../util/pipeline'
+
+const steps = orderPipelineSteps(DEFAULT_PIPELINE)
+
+const state: PipelineState = {
+  started_at: '2025-07-01T09:00:00.000Z',
+  assignee: 7,
+  tasks: { 'fetch-regulations': 1, 'run-comparison': 2, 'calculate-score': 3, 'process-results': 4 }
+}
+
+function pipeline(dependsOn: Record<string, string[]>): Pipeline {
+  return pipelineSchema.parse({
+    steps: Object.entries(dependsOn).map(([key, keys]) => ({
+      key,
+      capability: key,
+      description: `Run ${key}.`,
+      outputs: [`${key}.json`],
+      dependsOn: keys
+    }))
+  })
+}
+
+function actions(statuses: Array<[number, string]>, fromStep?: string) {
+  return planPipelineRun(steps, state, new Map(statuses), fromStep).map(plan => [
+    plan.step.key,
+    plan.action
+  ])
+}
+
+describe('pipeline', () => {
+  it('orders steps after their dependencies', () => {
+    assert.deepEqual(
+      orderPipelineSteps(pipeline({ report: ['score'], score: ['fetch'], fetch: [] })).map(
+        step => step.key
+      ),
+      ['fetch', 'score', 'report']
+    )
+    assert.deepEqual(
+      steps.map(step => step.key),
+      ['fetch-regulations', 'run-comparison', 'calculate-score', 'process-results']
+    )
+  })
+
+  it('rejects duplicate steps, unknown dependencies and cycles', () => {
+    const duplicate = pipeline({ fetch: [] })
+    duplicate.steps.push(duplicate.steps[0])
+
+    assert.throws(() => orderPipelineSteps(duplicate), /step "fetch" is defined twice/)
+    assert.throws(
+      () => orderPipelineSteps(pipeline({ score: ['fetch', 'audit'] })),
+      /step "score" depends on unknown steps: fetch, audit\./
+    )
+    assert.throws(
+      () => orderPipelineSteps(pipeline({ a: ['b'], b: ['a'] })),
+      /in a cycle through "a"/
+    )
+  })
+
+  it('creates every task on the first run', () => {
+    assert.deepEqual(
+      planPipelineRun(steps, undefined, new Map()).map(plan => plan.action),
+      ['create', 'create', 'create', 'create']
+    )
+  })
+
+  it('resumes by resetting only the tasks that failed or were cancelled', () => {
+    assert.deepEqual(
+      actions([
+        [1, 'done'],
+        [2, 'done'],
+        [3, 'error'],
+        [4, 'cancelled']
+      ]),
+      [
+        ['fetch-regulations', 'keep'],
+        ['run-comparison', 'keep'],
+        ['calculate-score', 'reset'],
+        ['process-results', 'reset']
+      ]
+    )
+  })
+
+  it('reruns a step and everything downstream of it', () => {
+    assert.deepEqual(
+      actions(
+        [
+          [1, 'done'],
+          [2, 'done'],
+          [3, 'done'],
+          [4, 'done']
+        ],
+        'run-comparison'
+      ),
+      [
+        ['fetch-regulations', 'keep'],
+        ['run-comparison', 'reset'],
+        ['calculate-score', 'reset'],
+        ['process-results', 'reset']
+      ]
+    )
+    assert.throws(
+      () => planPipelineRun(steps, state, new Map(), 'publish'),
+      /Unknown pipeline step "publish"\. Steps: fetch-regulations, run-comparison/
+    )
+  })
+
+  it('replaces the tasks waiting on a step whose task is gone', () => {
+    assert.deepEqual(
+      actions([
+        [2, 'done'],
+        [3, 'to-do'],
+        [4, 'in-progress']
+      ]),
+      [
+        ['fetch-regulations', 'create'],
+        ['run-comparison', 'replace'],
+        ['calculate-score', 'replace'],
+        ['process-results', 'replace']
+      ]
+    )
+  })
+
+  it('names the capability and the files a task reads and writes', () => {
+    const task = pipelineTask(steps[1])
+
+    assert.equal(
+      task.input,
+      "'audit.json, audits/*.json or audit-manifest.json', 'regulations.json' from the workspace"
+    )
+    assert.equal(task.expectedOutput, "Files named 'compliance.json' in the workspace")
+    assert.match(task.body, /You MUST use the capability: `run-comparison`\./)
+    assert.equal(pipelineTask(steps[0]).input, '{}')
+  })
+})
@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { ComplianceData, complianceSchema } from '../util/compliance'
+import {
+  diffRegulations,
+  findAffectedResults,
+  loadRegulations,
+  regulationVersions
+} from '../util/regulation_datasets'
+import { EAAGuidelines } from '../util/score_logic'
+
+function resultsAgainst(regulations: EAAGuidelines): ComplianceData {
+  return complianceSchema.parse({
+    mappedResults: { dataset: regulations.dataset, requirements: regulations.requirements }
+  })
+}
+
+describe('regulation datasets', () => {
+  it('loads a copy of the latest version unless one is named', () => {
+    const latest = loadRegulations()
+    latest.requirements[0].description = 'Edited'
+
+    assert.deepEqual(regulationVersions(), ['1.0.0', '1.1.0', '1.2.0'])
+    assert.equal(latest.dataset?.version, '1.2.0')
+    assert.equal(loadRegulations('1.0.0').dataset?.version, '1.0.0')
+    assert.notEqual(loadRegulations().requirements[0].description, 'Edited')
+    assert.match(latest.dataset?.content_hash || '', /^sha256:[0-9a-f]{64}$/)
+    assert.throws(
+      () => loadRegulations('9.9.9'),
+      /Unknown regulation dataset version "9\.9\.9"\. Available versions: 1\.0\.0, 1\.1\.0, 1\.2\.0\./
+    )
+  })
+
+  it('gives every version its own content hash', () => {
+    const hashes = regulationVersions().map(
+      version => loadRegulations(version).dataset?.content_hash
+    )
+
+    assert.equal(new Set(hashes).size, hashes.length)
+  })
+
+  it('diffs requirements by id', () => {
+    const from = loadRegulations('1.2.0')
+    const to = loadRegulations('1.2.0')
+    to.dataset = { version: '1.3.0', content_hash: 'sha256:next' }
+    to.requirements = to.requirements.filter(req => req.requirement_id !== 'A9.1')
+    to.requirements.push({ ...to.requirements[0], requirement_id: 'A10.1' })
+    to.requirements[0].description = 'Reworded'
+    to.requirements[1].criticality = 'LOW'
+    to.requirements[2].legal_reference = 'Annex I, Section II'
+
+    const diff = diffRegulations(from, to)
+
+    assert.equal(diff.from, '1.2.0')
+    assert.equal(diff.to, '1.3.0')
+    assert.deepEqual(diff.added, ['A10.1'])
+    assert.deepEqual(diff.removed, ['A9.1'])
+    assert.deepEqual(
+      diff.reworded.map(change => [change.requirement_id, change.after]),
+      [['A1.1', 'Reworded']]
+    )
+    assert.deepEqual(diff.criticality, [{ requirement_id: 'A1.2', before: 'HIGH', after: 'LOW' }])
+    assert.deepEqual(diff.other, [{ requirement_id: 'A2.1', fields: ['legal_reference'] }])
+  })
+
+  it('reports only the fields that changed between published versions', () => {
+    const diff = diffRegulations(loadRegulations('1.1.0'), loadRegulations('1.2.0'))
+
+    assert.deepEqual(diff.added, [])
+    assert.deepEqual(diff.reworded, [])
+    assert.ok(diff.other.every(change => change.fields.join() === 'timeline'))
+  })
+
+  it('finds results produced against another or a modified dataset', () => {
+    // An edited copy of 1.2.0 carries the hash of what was actually used
+    const modified = loadRegulations('1.2.0')
+    modified.requirements[0].description = 'Edited locally'
+    modified.dataset = { version: '1.2.0', content_hash: 'sha256:edited' }
+
+    const affected = findAffectedResults([
+      { label: 'current', compliance: resultsAgainst(loadRegulations()) },
+      { label: 'outdated', compliance: resultsAgainst(loadRegulations('1.1.0')) },
+      { label: 'modified', compliance: resultsAgainst(modified) },
+      {
+        label: 'unknown',
+        compliance: resultsAgainst({
+          ...loadRegulations(),
+          dataset: { version: '0.9.0', content_hash: 'sha256:old' }
+        })
+      },
+      {
+        label: 'unversioned',
+        compliance: complianceSchema.parse({ mappedResults: loadRegulations().requirements })
+      }
+    ])
+
+    assert.deepEqual(
+      affected.map(result => [result.label, result.reason, result.version]),
+      [
+        ['outdated', 'outdated_dataset', '1.1.0'],
+        ['modified', 'modified_dataset', '1.2.0'],
+        ['unknown', 'unknown_dataset', '0.9.0'],
+        ['unversioned', 'unversioned', null]
+      ]
+    )
+    assert.equal(affected[0].requirement_ids.length, 13)
+    assert.deepEqual(affected[1].requirement_ids, ['A1.1'])
+    assert.equal(affected[2].requirement_ids.length, 13)
+  })
+
+  it('checks results against an older version when asked', () => {
+    const affected = findAffectedResults(
+      [{ label: 'outdated', compliance: resultsAgainst(loadRegulations('1.1.0')) }],
+      '1.1.0'
+    )
+
+    assert.deepEqual(affected, [])
+  })
+})
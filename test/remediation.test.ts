@@ -0,0 +1,139 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { ComplianceData, complianceSchema } from '../util/compliance'
+import { buildRemediationBacklog, renderRemediationBacklog } from '../util/remediation'
+
+const compliance: ComplianceData = complianceSchema.parse({
+  mappedResults: [
+    {
+      requirement_id: 'A1.1',
+      criticality: 'HIGH',
+      legal_reference: 'Annex I, Section I',
+      status: 'non_compliant'
+    },
+    {
+      requirement_id: 'A6.1',
+      criticality: 'MEDIUM',
+      legal_reference: 'Annex I, Section VII',
+      status: 'partially_compliant'
+    },
+    {
+      requirement_id: 'A5.1',
+      criticality: 'MEDIUM',
+      legal_reference: 'Annex I, Section IV',
+      status: 'exempted'
+    }
+  ],
+  issues: [
+    {
+      fingerprint: 'fp1',
+      audit_id: 'link-name',
+      title: 'Links do not have a discernible name',
+      description:
+        'Give links text. [Learn more](https://dequeuniversity.com/rules/axe/4.9/link-name).',
+      url: 'https://shop.example/',
+      selector: 'a.logo',
+      requirement_ids: ['A6.1', 'A1.1']
+    },
+    {
+      fingerprint: 'fp2',
+      audit_id: 'link-name',
+      title: 'Links do not have a discernible name',
+      url: 'https://shop.example/cart',
+      selector: 'a.cart',
+      requirement_ids: ['A1.1']
+    },
+    {
+      fingerprint: 'fp3',
+      audit_id: 'color-contrast',
+      title: 'Insufficient contrast',
+      url: 'https://shop.example/',
+      selector: 'p.note',
+      requirement_ids: ['A6.1']
+    },
+    {
+      fingerprint: 'fp4',
+      audit_id: 'image-alt',
+      title: 'Images need alternative text',
+      url: 'https://shop.example/',
+      selector: 'img.hero',
+      requirement_ids: ['A5.1']
+    }
+  ]
+})
+
+const assessmentDate = new Date('2025-07-01T00:00:00.000Z')
+
+describe('remediation backlog', () => {
+  it('groups failing elements into one ticket per rule, leaving out exempted requirements', () => {
+    const { tickets } = buildRemediationBacklog(compliance, { assessmentDate })
+
+    assert.deepEqual(
+      tickets.map(ticket => ticket.id),
+      ['eaa-link-name', 'eaa-color-contrast']
+    )
+    assert.equal(tickets[0].title, 'Links do not have a discernible name (2 elements on 2 pages)')
+    assert.deepEqual(tickets[0].requirement_ids, ['A1.1', 'A6.1'])
+    assert.deepEqual(tickets[0].legal_references, ['Annex I, Section I', 'Annex I, Section VII'])
+    assert.deepEqual(tickets[0].pages, ['https://shop.example/', 'https://shop.example/cart'])
+    assert.equal(tickets[0].suggestion, 'Give links text. Learn more.')
+    assert.deepEqual(tickets[0].acceptance_criteria, [
+      'The link-name audit no longer reports `a.logo` on https://shop.example/.',
+      'The link-name audit no longer reports `a.cart` on https://shop.example/cart.'
+    ])
+  })
+
+  it('ranks by criticality, reach and urgency over effort', () => {
+    const { tickets } = buildRemediationBacklog(compliance, { assessmentDate })
+
+    assert.deepEqual(tickets[0].factors, { criticality: 10, reach: 3, urgency: 2, effort: 1 })
+    assert.equal(tickets[0].score, 60)
+    assert.equal(tickets[0].priority, 'P1')
+    assert.deepEqual(tickets[1].factors, { criticality: 5, reach: 1, urgency: 2, effort: 3 })
+    assert.equal(tickets[1].score, 3.33)
+    assert.equal(tickets[1].priority, 'P2')
+    assert.deepEqual(
+      tickets.map(ticket => ticket.rank),
+      [1, 2]
+    )
+  })
+
+  it('takes deadlines per requirement and lowers the urgency of distant ones', () => {
+    const { tickets } = buildRemediationBacklog(compliance, {
+      assessmentDate,
+      deadlines: { 'A6.1': '2027-01-01', 'A1.1': '2025-09-01' }
+    })
+
+    assert.equal(tickets[0].deadline, '2025-09-01')
+    assert.equal(tickets[0].factors.urgency, 1.5)
+    assert.equal(tickets[1].deadline, '2027-01-01')
+    assert.equal(tickets[1].factors.urgency, 1)
+    assert.equal(tickets[1].priority, 'P3')
+  })
+
+  it('renders GitHub issues and a Jira CSV with repeated label columns', () => {
+    const backlog = buildRemediationBacklog(compliance, { assessmentDate })
+    const [issue] = JSON.parse(renderRemediationBacklog(backlog, 'github'))
+    const jira = renderRemediationBacklog(backlog, 'jira')
+
+    assert.deepEqual(issue.labels, [
+      'accessibility',
+      'eaa',
+      'priority:P1',
+      'effort:low',
+      'eaa:A1.1',
+      'eaa:A6.1'
+    ])
+    assert.match(issue.body, /\*\*Deadline:\*\* 2025-06-28 \(overdue\)/)
+    assert.match(issue.body, /^- `a\.logo` on https:\/\/shop\.example\/$/m)
+    assert.equal(
+      jira.split('\r\n')[0],
+      'Summary,Issue Type,Priority,Due Date,Story Points,Labels,Labels,Labels,Labels,Labels,Labels,Description'
+    )
+    assert.match(jira, /^\* The link-name audit no longer reports \{\{a\.logo\}\}/m)
+    assert.match(
+      jira,
+      /,Task,High,2025-06-28,3,accessibility,eaa,priority:P2,effort:medium,eaa:A6\.1,,"/
+    )
+  })
+})
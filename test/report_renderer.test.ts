@@ -0,0 +1,215 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { ComplianceData } from '../util/compliance'
+import {
+  buildComplianceReport,
+  ComplianceReport,
+  csvCell,
+  renderReport
+} from '../util/report_renderer'
+
+function report(narrative?: string): ComplianceReport {
+  return {
+    locale: 'en',
+    directive: 'Directive (EU) 2019/882',
+    summary: {
+      non_compliant: [],
+      partially_compliant: [],
+      needs_review: [],
+      compliant: [],
+      exempted: [],
+      pending: [],
+      not_applicable: []
+    },
+    requirements: [],
+    upcoming_deadlines: [],
+    actionable_insights: [],
+    waived_findings: [],
+    waiver_warnings: [],
+    narrative
+  }
+}
+
+function narrativeSection(html: string): string {
+  const start = html.indexOf('<section aria-labelledby="narrative">')
+  return html.slice(start, html.indexOf('</section>', start))
+}
+
+function issue(index: number, requirementIds: string[], title: string) {
+  return {
+    fingerprint: `fp${index}`,
+    audit_id: index % 2 ? 'link-name' : 'color-contrast',
+    title,
+    description: 'Fix it. [Learn more](https://dequeuniversity.com/rules/axe/4.9/link-name).',
+    url: 'https://shop.example/checkout',
+    selector: `.item-${index}`,
+    requirement_ids: requirementIds,
+    evidence: { snippet: `<a class="item-${index}">`, node_label: '', explanation: '' }
+  }
+}
+
+const compliance: ComplianceData = {
+  mappedResults: [
+    {
+      requirement_id: 'A1.1',
+      description: 'Websites must be perceivable, operable, understandable, and robust.',
+      category: 'Web Accessibility',
+      criticality: 'HIGH',
+      legal_reference: 'Annex I, Section I',
+      status: 'partially_compliant'
+    },
+    {
+      requirement_id: 'A6.1',
+      description: 'E-commerce websites must provide accessible product descriptions.',
+      category: 'E-Commerce Accessibility',
+      criticality: 'MEDIUM',
+      legal_reference: 'Annex I, Section VII',
+      status: 'non_compliant'
+    },
+    {
+      requirement_id: 'A9.1',
+      description: 'Exemptions must be documented with justification.',
+      category: 'Compliance & Documentation',
+      criticality: 'LOW',
+      legal_reference: 'Annex VI',
+      status: 'compliant'
+    }
+  ],
+  issues: [
+    issue(1, ['A6.1'], 'Links do not have a discernible name'),
+    issue(2, ['A1.1'], '=HYPERLINK("x"), with a comma')
+  ]
+}
+
+describe('buildComplianceReport', () => {
+  it('groups requirements by status and orders insights by criticality', () => {
+    const report = buildComplianceReport(compliance)
+
+    assert.deepEqual(
+      report.summary.partially_compliant.map(req => req.requirement_id),
+      ['A1.1']
+    )
+    assert.deepEqual(
+      report.summary.compliant.map(req => req.requirement_id),
+      ['A9.1']
+    )
+    assert.deepEqual(
+      report.actionable_insights.map(insight => [insight.requirement_id, insight.criticality]),
+      [
+        ['A1.1', 'HIGH'],
+        ['A6.1', 'MEDIUM']
+      ]
+    )
+    assert.equal(report.actionable_insights[1].suggestion, 'Fix it. Learn more.')
+  })
+
+  it('renders the same output for the same results', () => {
+    ;(['markdown', 'html', 'csv', 'json'] as const).forEach(format =>
+      assert.equal(
+        renderReport(buildComplianceReport(compliance), format),
+        renderReport(buildComplianceReport(compliance), format)
+      )
+    )
+  })
+
+  it('escapes table cells in Markdown', () => {
+    const markdown = renderReport(
+      buildComplianceReport({
+        mappedResults: [
+          {
+            requirement_id: 'A1.1',
+            description: 'Websites',
+            category: 'Web | Apps',
+            criticality: 'HIGH',
+            legal_reference: 'Annex I, Section I',
+            status: 'compliant'
+          }
+        ]
+      }),
+      'markdown'
+    )
+
+    assert.ok(markdown.includes('Web \\| Apps'))
+  })
+})
+
+describe('renderReport csv', () => {
+  it('writes one row per failing element with spreadsheet-safe cells', () => {
+    const lines = renderReport(buildComplianceReport(compliance), 'csv').split('\r\n')
+
+    assert.equal(
+      lines[0],
+      'fingerprint,requirement_id,criticality,status,page,audit_id,issue,failing_element,selector,explanation,suggestion'
+    )
+    assert.equal(lines.length, 4)
+    assert.ok(lines[1].includes(`"'=HYPERLINK(""x""), with a comma"`))
+    assert.equal(lines[3], '')
+  })
+
+  it('quotes and neutralises cells', () => {
+    assert.equal(csvCell('plain'), 'plain')
+    assert.equal(csvCell('a,b'), '"a,b"')
+    assert.equal(csvCell('say "hi"'), '"say ""hi"""')
+    assert.equal(csvCell('-1'), "'-1")
+    assert.equal(csvCell('@SUM(A1)'), "'@SUM(A1)")
+  })
+})
+
+describe('renderReport html narrative', () => {
+  it('renders headings, lists and paragraphs from the Markdown', () => {
+    const html = renderReport(
+      report(
+        [
+          '### Requirement A1.1: Websites',
+          '',
+          '#### Fix steps',
+          '',
+          '1. Give `button.buy` a **name**.',
+          '2. Check the *checkout* form',
+          '   on every page.',
+          '',
+          '#### Acceptance criteria',
+          '',
+          '- The button has a [label](https://example.com).',
+          '',
+          'Retest afterwards.'
+        ].join('\n')
+      ),
+      'html'
+    )
+
+    assert.equal(
+      narrativeSection(html).split('\n').slice(2).join('\n'),
+      [
+        '<h3>Requirement A1.1: Websites</h3>',
+        '<h4>Fix steps</h4>',
+        '<ol><li>Give <code>button.buy</code> a <strong>name</strong>.</li><li>Check the <em>checkout</em> form on every page.</li></ol>',
+        '<h4>Acceptance criteria</h4>',
+        '<ul><li>The button has a label.</li></ul>',
+        '<p>Retest afterwards.</p>',
+        ''
+      ].join('\n')
+    )
+  })
+
+  it('escapes whatever markup the model writes', () => {
+    const section = narrativeSection(
+      renderReport(
+        report('#### Fix <img src=x onerror=alert(1)>\n\n- `<script>` and <b>bold</b>'),
+        'html'
+      )
+    )
+
+    assert.ok(!section.includes('<img'))
+    assert.ok(!section.includes('<b>'))
+    assert.ok(section.includes('<code>&lt;script&gt;</code>'))
+  })
+
+  it('leaves snake_case words alone', () => {
+    const section = narrativeSection(
+      renderReport(report('Set aria_label_id and data_test_id.'), 'html')
+    )
+
+    assert.ok(section.includes('<p>Set aria_label_id and data_test_id.</p>'))
+  })
+})
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { ComplianceRequirement } from '../util/compliance'
+import { diffRuns, RunSnapshot } from '../util/run_diff'
+
+function run(
+  label: string,
+  statuses: Record<string, ComplianceRequirement['status']>
+): RunSnapshot {
+  return {
+    label,
+    compliance: {
+      mappedResults: Object.entries(statuses).map(([requirementId, status]) => ({
+        requirement_id: requirementId,
+        description: `Requirement ${requirementId}`,
+        category: 'Web Accessibility',
+        criticality: 'HIGH' as const,
+        legal_reference: 'Annex I',
+        status
+      }))
+    }
+  }
+}
+
+const ids = (changes: { requirement_id: string }[]) => changes.map(change => change.requirement_id)
+
+describe('diffRuns', () => {
+  it('counts any move into a failing status as a regression, from pending too', () => {
+    const diff = diffRuns(
+      run('sprint 1', {
+        A1: 'pending',
+        A2: 'pending',
+        A3: 'compliant',
+        A4: 'needs_review',
+        A5: 'partially_compliant'
+      }),
+      run('sprint 2', {
+        A1: 'non_compliant',
+        A2: 'partially_compliant',
+        A3: 'partially_compliant',
+        A4: 'non_compliant',
+        A5: 'non_compliant'
+      })
+    )
+
+    assert.deepEqual(ids(diff.requirements.regressed), ['A1', 'A2', 'A3', 'A4', 'A5'])
+    assert.deepEqual(diff.requirements.improved, [])
+    assert.deepEqual(diff.requirements.changed, [])
+  })
+
+  it('keeps moves between statuses without a rank as changes', () => {
+    const diff = diffRuns(
+      run('sprint 1', { A1: 'pending', A2: 'non_compliant', A3: 'partially_compliant' }),
+      run('sprint 2', { A1: 'compliant', A2: 'pending', A3: 'compliant' })
+    )
+
+    assert.deepEqual(ids(diff.requirements.regressed), [])
+    assert.deepEqual(ids(diff.requirements.improved), ['A3'])
+    assert.deepEqual(ids(diff.requirements.changed), ['A1', 'A2'])
+  })
+})
@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { ComplianceData, complianceSchema } from '../util/compliance'
+import { complianceToSarif } from '../util/sarif'
+
+const compliance: ComplianceData = complianceSchema.parse({
+  mappedResults: {
+    mapping_version: '1.1.1',
+    requirements: [
+      {
+        requirement_id: 'A1.1',
+        criticality: 'HIGH',
+        legal_reference: 'Annex I, Section I',
+        national_reference: '§ 3 BFSGV',
+        status: 'non_compliant'
+      },
+      {
+        requirement_id: 'A6.1',
+        criticality: 'MEDIUM',
+        legal_reference: 'Annex I, Section VII',
+        status: 'non_compliant'
+      }
+    ]
+  },
+  issues: [
+    {
+      fingerprint: 'fp-link',
+      audit_id: 'link-name',
+      title: 'Links do not have a discernible name',
+      description: 'Fix it. [Learn more](https://dequeuniversity.com/rules/axe/4.9/link-name).',
+      url: 'https://shop.example/cart',
+      selector: 'a.checkout',
+      requirement_ids: ['A6.1', 'A1.1'],
+      evidence: { snippet: '<a class="checkout">', explanation: 'Element has no text' }
+    },
+    {
+      fingerprint: 'fp-contrast',
+      audit_id: 'color-contrast',
+      title: 'Insufficient colour contrast',
+      requirement_ids: ['A6.1']
+    }
+  ]
+})
+
+describe('SARIF export', () => {
+  it('describes each failing audit once as a rule with its help link', () => {
+    const run = complianceToSarif(compliance).runs[0]
+
+    assert.deepEqual(run.tool.driver.rules[0], {
+      id: 'link-name',
+      name: 'link-name',
+      shortDescription: { text: 'Links do not have a discernible name' },
+      fullDescription: { text: 'Fix it. Learn more.' },
+      helpUri: 'https://dequeuniversity.com/rules/axe/4.9/link-name'
+    })
+    assert.deepEqual(
+      run.tool.driver.rules.map(rule => rule.id),
+      ['link-name', 'color-contrast']
+    )
+    assert.deepEqual(run.properties, { mapping_version: '1.1.1' })
+  })
+
+  it('merges an element failing several requirements into one result at the highest level', () => {
+    const [result] = complianceToSarif(compliance).runs[0].results
+
+    assert.equal(result.level, 'error')
+    assert.equal(result.ruleIndex, 0)
+    assert.deepEqual(result.partialFingerprints, { 'eaaIssue/v1': 'fp-link' })
+    assert.equal(result.message.text, 'Links do not have a discernible name: Element has no text')
+    assert.deepEqual(result.properties, {
+      requirement_ids: ['A6.1', 'A1.1'],
+      legal_references: ['Annex I, Section VII', 'Annex I, Section I', '§ 3 BFSGV'],
+      criticality: 'HIGH',
+      selector: 'a.checkout'
+    })
+    assert.deepEqual(result.locations, [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: 'https://shop.example/cart' },
+          region: { snippet: { text: '<a class="checkout">' } }
+        },
+        logicalLocations: [{ fullyQualifiedName: 'a.checkout', kind: 'element' }]
+      }
+    ])
+  })
+
+  it('leaves out locations an issue does not have', () => {
+    const result = complianceToSarif(compliance).runs[0].results[1]
+
+    assert.equal(result.level, 'warning')
+    assert.deepEqual(result.locations, [{}])
+  })
+})
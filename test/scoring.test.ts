@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { ComplianceData, ComplianceRequirement } from '../util/compliance'
+import { calculateComplianceScore } from '../util/scoring'
+
+function requirement(
+  requirementId: string,
+  category: string,
+  criticality: ComplianceRequirement['criticality'],
+  status: ComplianceRequirement['status']
+): ComplianceRequirement {
+  return {
+    requirement_id: requirementId,
+    description: requirementId,
+    category,
+    criticality,
+    legal_reference: '',
+    status
+  }
+}
+
+function compliance(failingElements = 0): ComplianceData {
+  return {
+    mappedResults: [
+      requirement('A1.1', 'Web Accessibility', 'HIGH', 'compliant'),
+      requirement('A6.1', 'Web Accessibility', 'HIGH', 'non_compliant'),
+      requirement('A3.2', 'Service Accessibility', 'MEDIUM', 'partially_compliant'),
+      requirement('A9.1', 'Compliance & Documentation', 'LOW', 'pending'),
+      requirement('A8.1', 'Banking Accessibility', 'HIGH', 'not_applicable')
+    ],
+    issues: Array.from({ length: failingElements }, (_, index) => ({
+      fingerprint: `fp${index}`,
+      audit_id: 'color-contrast',
+      title: '',
+      description: '',
+      selector: `.item-${index}`,
+      requirement_ids: ['A3.2'],
+      evidence: { snippet: '', node_label: '', explanation: '' }
+    }))
+  }
+}
+
+describe('calculateComplianceScore', () => {
+  it('weights assessed requirements by criticality and leaves the rest out', () => {
+    const score = calculateComplianceScore(compliance())
+
+    // (3 × 1 + 3 × 0 + 2 × 0.5) / (3 + 3 + 2)
+    assert.equal(score.finalScore, 50)
+    assert.equal(score.profile, 'default')
+    assert.deepEqual(score.coverage, { assessed: 3, total: 4, ratio: 0.75, confidence: 'medium' })
+    assert.deepEqual(score.categories['Web Accessibility'], { score: 50, requirements: 2 })
+    assert.deepEqual(score.categories['Compliance & Documentation'], {
+      score: null,
+      requirements: 1
+    })
+    assert.deepEqual(score.criticality.HIGH, { score: 50, requirements: 3 })
+  })
+
+  it('counts unassessed requirements as failing under the strict profile', () => {
+    // (5 × 1 + 5 × 0 + 2 × 0.25 + 1 × 0) / (5 + 5 + 2 + 1)
+    assert.equal(calculateComplianceScore(compliance(), 'strict').finalScore, 42)
+  })
+
+  it('takes failing elements off a requirement up to the cap', () => {
+    const penalised = calculateComplianceScore(compliance(5))
+    const partial = penalised.requirements.find(req => req.requirement_id === 'A3.2')
+
+    assert.equal(partial?.failing_elements, 5)
+    assert.equal(partial?.score, 0.4)
+    // (3 + 0 + 2 × 0.4) / 8
+    assert.equal(penalised.finalScore, 48)
+
+    const capped = calculateComplianceScore(compliance(100))
+    assert.equal(capped.requirements.find(req => req.requirement_id === 'A3.2')?.score, 0.2)
+  })
+
+  it('refuses an unknown profile', () => {
+    assert.throws(() => calculateComplianceScore(compliance(), 'lenient'), {
+      message: 'Unknown scoring profile "lenient". Available profiles: default, strict.'
+    })
+  })
+})
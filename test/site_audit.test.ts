@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { loadRegulations } from '../util/regulation_datasets'
+import { LighthouseAudit } from '../util/score_logic'
+import { mapSiteToEAA, PageAuditInput } from '../util/site_audit'
+
+function audit(id: string, score: number | null, selectors: string[] = []): LighthouseAudit {
+  return {
+    id,
+    title: id,
+    description: '',
+    score,
+    scoreDisplayMode: score === null ? 'manual' : 'binary',
+    details: { type: 'table', items: selectors.map(selector => ({ node: { selector } })) }
+  }
+}
+
+function page(url: string, audits: LighthouseAudit[], template?: string): PageAuditInput {
+  return {
+    url,
+    template,
+    input: {
+      audits: Object.fromEntries(audits.map(item => [item.id, item])),
+      metadata: { source: 'lighthouse', format: 'audit_map' }
+    }
+  }
+}
+
+function status(result: ReturnType<typeof mapSiteToEAA>, requirementId: string) {
+  return result.mappedResults.requirements.find(req => req.requirement_id === requirementId)
+}
+
+describe('mapSiteToEAA', () => {
+  it('is partially compliant when only some pages fail and lists them', () => {
+    const result = mapSiteToEAA(
+      [
+        page('https://shop.example/', [audit('color-contrast', 1)], 'home'),
+        page('https://shop.example/checkout', [audit('color-contrast', 0, ['.price'])], 'checkout')
+      ],
+      loadRegulations()
+    )
+
+    assert.equal(status(result, 'A1.1')?.status, 'partially_compliant')
+    assert.deepEqual(status(result, 'A1.1')?.pages, {
+      failing: ['https://shop.example/checkout'],
+      passing: ['https://shop.example/']
+    })
+    assert.deepEqual(
+      result.pages.map(summary => [summary.template, summary.clean, summary.failing_requirements]),
+      [
+        ['home', true, []],
+        ['checkout', false, ['A1.1']]
+      ]
+    )
+  })
+
+  it('is non compliant when every evaluated page fails and compliant when none does', () => {
+    const failing = mapSiteToEAA(
+      [
+        page('https://shop.example/', [audit('color-contrast', 0, ['.a'])]),
+        page('https://shop.example/about', [audit('color-contrast', 0, ['.b'])]),
+        // A page without audits for the requirement does not count either way
+        page('https://shop.example/empty', [])
+      ],
+      loadRegulations()
+    )
+    assert.equal(status(failing, 'A1.1')?.status, 'non_compliant')
+    assert.equal(failing.issues.length, 2)
+
+    const passing = mapSiteToEAA(
+      [
+        page('https://shop.example/', [audit('color-contrast', 1)]),
+        page('https://shop.example/about', [audit('image-alt', 1)])
+      ],
+      loadRegulations()
+    )
+    assert.equal(status(passing, 'A1.1')?.status, 'compliant')
+    assert.deepEqual(status(passing, 'A1.1')?.derived_from?.audits, ['color-contrast', 'image-alt'])
+  })
+
+  it('waits for a review when no page fails but one could not be decided', () => {
+    const result = mapSiteToEAA(
+      [
+        page('https://shop.example/', [audit('color-contrast', 1)]),
+        page('https://shop.example/video', [audit('video-caption', null)])
+      ],
+      loadRegulations()
+    )
+
+    assert.equal(status(result, 'A1.1')?.status, 'needs_review')
+    assert.equal(status(result, 'A6.1')?.status, 'pending')
+  })
+})
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { loadRegulations } from '../util/regulation_datasets'
+import { applyTimeline, Obligation, obligationDeadline, ProductFacts } from '../util/timeline'
+
+function obligation(id: string, date: string, facts?: ProductFacts): Obligation | undefined {
+  return applyTimeline(loadRegulations(), new Date(`${date}T12:00:00Z`), facts).requirements.find(
+    req => req.requirement_id === id
+  )?.obligation
+}
+
+describe('timeline', () => {
+  it('is not yet applicable before the requirement applies and in force from that day', () => {
+    assert.deepEqual(obligation('A2.2', '2025-06-27'), {
+      status: 'not_yet_applicable',
+      applies_from: '2025-06-28'
+    })
+    assert.deepEqual(obligation('A2.2', '2025-06-28'), {
+      status: 'in_force',
+      applies_from: '2025-06-28'
+    })
+  })
+
+  it('runs a contract transition until the contract expires, at most until 2030', () => {
+    const facts = { contract_concluded: '2024-01-15', contract_expires: '2027-01-14' }
+
+    assert.deepEqual(obligation('A1.1', '2026-03-01', facts), {
+      status: 'in_transition',
+      applies_from: '2025-06-28',
+      until: '2027-01-14',
+      transition: 'service_contracts',
+      legal_reference: 'Article 32(1)'
+    })
+    assert.equal(obligation('A1.1', '2027-01-14', facts)?.status, 'in_force')
+    assert.equal(
+      obligation('A1.1', '2029-01-01', { contract_concluded: '2024-01-15' })?.until,
+      '2030-06-28'
+    )
+  })
+
+  it('only covers contracts and terminals from before the requirement applied', () => {
+    assert.equal(
+      obligation('A1.1', '2026-03-01', { contract_concluded: '2025-06-28' })?.status,
+      'in_force'
+    )
+    assert.equal(obligation('A1.1', '2026-03-01')?.status, 'in_force')
+  })
+
+  it('limits a terminal transition to 20 years or the end of its economic life', () => {
+    assert.equal(
+      obligation('A2.1', '2026-03-01', { terminal_deployed: '2010-05-01' })?.until,
+      '2030-05-01'
+    )
+    assert.equal(
+      obligation('A2.1', '2026-03-01', {
+        terminal_deployed: '2020-05-01',
+        terminal_end_of_life: '2028-12-31'
+      })?.until,
+      '2028-12-31'
+    )
+  })
+
+  it('records the assessment and leaves out-of-scope requirements alone', () => {
+    const regulations = loadRegulations()
+    regulations.requirements[0].status = 'not_applicable'
+    const result = applyTimeline(regulations, new Date('2026-03-01T00:00:00Z'))
+
+    assert.deepEqual(result.timeline, { assessment_date: '2026-03-01', facts: {} })
+    assert.equal(result.requirements[0].obligation, undefined)
+    assert.equal(regulations.requirements[1].obligation, undefined)
+  })
+
+  it('rejects requirements that refer to an unknown transition', () => {
+    const regulations = loadRegulations()
+    regulations.requirements[0].timeline = { applies_from: '2025-06-28', transitions: ['leases'] }
+
+    assert.throws(
+      () => applyTimeline(regulations, new Date('2026-03-01T00:00:00Z')),
+      /Requirement A1\.1 refers to unknown transition leases\./
+    )
+  })
+
+  it('takes the deadline from the end of the transition', () => {
+    assert.equal(
+      obligationDeadline({
+        status: 'in_transition',
+        applies_from: '2025-06-28',
+        until: '2027-01-14'
+      }),
+      '2027-01-14'
+    )
+    assert.equal(
+      obligationDeadline({ status: 'in_force', applies_from: '2025-06-28' }),
+      '2025-06-28'
+    )
+  })
+})
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { partitionWaivers, Waiver } from '../util/waivers'
+
+function waiver(id: string, expiresAt: string): Waiver {
+  return {
+    id,
+    audit_id: 'color-contrast',
+    selector: '.hero *',
+    reason: 'Decorative text over an image',
+    approved_by: 'a11y-lead',
+    expires_at: expiresAt
+  }
+}
+
+describe('partitionWaivers', () => {
+  it('keeps a waiver active for the whole of its expiry day', () => {
+    const { active, expired } = partitionWaivers(
+      [waiver('W1', '2026-06-30')],
+      new Date('2026-06-30T15:45:00Z')
+    )
+    assert.deepEqual(
+      active.map(item => item.id),
+      ['W1']
+    )
+    assert.deepEqual(expired, [])
+  })
+
+  it('expires a waiver the day after', () => {
+    const { active, expired } = partitionWaivers(
+      [waiver('W1', '2026-06-30'), waiver('W2', '2026-07-01T08:00:00Z')],
+      new Date('2026-07-01T12:00:00Z')
+    )
+    assert.deepEqual(
+      active.map(item => item.id),
+      ['W2']
+    )
+    assert.deepEqual(
+      expired.map(item => item.id),
+      ['W1']
+    )
+  })
+
+  it('rejects a waiver id used twice', () => {
+    assert.throws(
+      () => partitionWaivers([waiver('W1', '2026-06-30'), waiver('W1', '2026-07-31')]),
+      { message: 'Waiver W1 is defined twice.' }
+    )
+  })
+})
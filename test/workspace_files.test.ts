@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict'
+import http from 'node:http'
+import { AddressInfo } from 'node:net'
+import { after, before, beforeEach, describe, it, mock } from 'node:test'
+import { fetchWorkspaceText, readArtifactFile, WorkspaceFile } from '../util/workspace_files'
+
+// A local stand-in for workspace storage: each test queues the responses it wants, in order
+type Reply = (response: http.ServerResponse) => void
+
+describe('fetching workspace files', () => {
+  let server: http.Server
+  let baseUrl: string
+  let replies: Reply[]
+  let requests: number
+
+  const file = (path: string): WorkspaceFile => ({ path, fullUrl: `${baseUrl}/${path}` })
+  const status =
+    (code: number, body = ''): Reply =>
+    response =>
+      response.writeHead(code, { 'content-type': 'application/json' }).end(body)
+  const fast = { retryDelayMs: 1, timeoutMs: 1000 }
+
+  before(async () => {
+    server = http.createServer((_request, response) => {
+      requests++
+      const reply = replies.shift()
+      if (reply) reply(response)
+      // No reply queued: leave the request hanging
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  after(() => {
+    server.closeAllConnections()
+    server.close()
+  })
+
+  beforeEach(() => {
+    replies = []
+    requests = 0
+    mock.method(console, 'warn', () => undefined)
+  })
+
+  it('retries 5xx and 429 responses until one succeeds', async () => {
+    replies = [status(503), status(429), status(200, '{"ok":true}')]
+    const body = await fetchWorkspaceText(file('audit.json'), fast)
+    assert.equal(body, '{"ok":true}')
+    assert.equal(requests, 3)
+  })
+
+  it('gives up after the configured retries', async () => {
+    replies = [status(500), status(502), status(503), status(200, '{}')]
+    await assert.rejects(fetchWorkspaceText(file('audit.json'), { ...fast, retries: 2 }), {
+      message: 'Failed to fetch audit.json after 3 attempts: HTTP 503'
+    })
+    assert.equal(requests, 3)
+  })
+
+  it('does not retry other client errors', async () => {
+    replies = [status(404), status(200, '{}')]
+    await assert.rejects(fetchWorkspaceText(file('missing.json'), fast), {
+      message: 'Failed to fetch missing.json: HTTP 404'
+    })
+    assert.equal(requests, 1)
+  })
+
+  it('times out on a response that never comes', async () => {
+    await assert.rejects(
+      fetchWorkspaceText(file('slow.json'), { ...fast, timeoutMs: 50, retries: 1 }),
+      { message: 'Failed to fetch slow.json after 2 attempts: timed out after 50 ms' }
+    )
+    assert.equal(requests, 2)
+  })
+
+  it('refuses a body larger than maxBytes, announced or streamed', async () => {
+    replies = [
+      response =>
+        response
+          .writeHead(200, { 'content-type': 'application/json', 'content-length': 100 })
+          .end('x'.repeat(100))
+    ]
+    await assert.rejects(fetchWorkspaceText(file('big.json'), { ...fast, maxBytes: 10 }), {
+      message: 'Failed to fetch big.json: 100 bytes exceeds the limit of 10'
+    })
+
+    replies = [
+      response => {
+        response.writeHead(200, { 'content-type': 'application/json' })
+        response.write('x'.repeat(8))
+        response.end('x'.repeat(8))
+      }
+    ]
+    await assert.rejects(fetchWorkspaceText(file('big.json'), { ...fast, maxBytes: 10 }), {
+      message: 'Failed to fetch big.json: more than 10 bytes exceeds the limit'
+    })
+  })
+
+  it('rejects a response with another content type', async () => {
+    replies = [response => response.writeHead(200, { 'content-type': 'text/html' }).end('<html>')]
+    await assert.rejects(fetchWorkspaceText(file('audit.json'), fast), {
+      message: 'Failed to fetch audit.json: unexpected content type text/html'
+    })
+  })
+
+  it('names the file when its content does not validate', async () => {
+    replies = [status(200, '{"waivers":[{"fingerprint":1}]}')]
+    await assert.rejects(readArtifactFile(file('eaa/waivers.json'), 'waivers', fast), error => {
+      assert.match((error as Error).message, /^Invalid eaa\/waivers\.json: waivers\.0\./)
+      return true
+    })
+  })
+
+  it('names the file when it is not JSON', async () => {
+    replies = [status(200, 'not json')]
+    await assert.rejects(readArtifactFile(file('waivers.json'), 'waivers', fast), error => {
+      assert.match((error as Error).message, /^waivers\.json is not valid JSON: /)
+      return true
+    })
+  })
+})
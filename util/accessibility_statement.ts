@@ -0,0 +1,394 @@
+import { z } from 'zod'
+import {
+  ComplianceData,
+  complianceJurisdiction,
+  complianceLocale,
+  ComplianceRequirement,
+  complianceRequirements,
+  FAILING_STATUSES,
+  failingElementsOf
+} from './compliance'
+import { AppliedExemption, appliedExemptionSchema } from './exemptions'
+import { AppliedJurisdiction, BASE_JURISDICTION } from './jurisdiction'
+import { escapeHtml } from './report_renderer'
+import { DEFAULT_LOCALE, Locale, TextKey, translator } from './i18n'
+
+// Draft accessibility statement (Annex V, Directive (EU) 2019/882) built from compliance.json
+
+export const STATEMENT_FORMATS = ['html', 'markdown'] as const
+export type StatementFormat = (typeof STATEMENT_FORMATS)[number]
+
+export const STATEMENT_FILE_NAMES: Record<StatementFormat, string> = {
+  html: 'accessibility-statement.html',
+  markdown: 'accessibility-statement.md'
+}
+
+export const statementOrganisationSchema = z.object({
+  name: z.string().min(1).describe('Organisation providing the service'),
+  service: z.string().min(1).describe('Name of the website, app or service the statement covers'),
+  service_url: z.string().optional(),
+  contact: z
+    .object({
+      email: z.string().optional(),
+      phone: z.string().optional(),
+      address: z.string().optional()
+    })
+    .refine(
+      contact => Boolean(contact.email || contact.phone || contact.address),
+      'at least one of email, phone or address is required'
+    ),
+  feedback_mechanism: z
+    .string()
+    .min(1)
+    .describe('How users report accessibility problems and how quickly they get an answer'),
+  enforcement_body: z
+    .object({
+      name: z.string().min(1),
+      url: z.string().optional(),
+      contact: z.string().optional()
+    })
+    .optional()
+    .describe('Defaults to the enforcement body of the jurisdiction the audit was assessed against')
+})
+
+export const statementExemptionsSchema = z.array(appliedExemptionSchema)
+
+export type StatementOrganisation = z.infer<typeof statementOrganisationSchema>
+
+export type ConformanceStatus = 'fully_compliant' | 'partially_compliant' | 'not_compliant'
+
+type NonAccessibleContent = {
+  requirement_id: string
+  description: string
+  legal_reference: string
+  national_reference?: string
+  status: string
+  // Failing checks and the pages they fail on
+  failures: Array<{ audit_id: string; title: string; pages: string[] }>
+}
+
+export type AccessibilityStatement = {
+  // Accessibility statements have to be published in the national language
+  locale: Locale
+  organisation: StatementOrganisation
+  jurisdiction?: AppliedJurisdiction
+  enforcement_body: NonNullable<StatementOrganisation['enforcement_body']>
+  conformance_status: ConformanceStatus
+  non_accessible_content: NonAccessibleContent[]
+  not_assessed: Array<Pick<ComplianceRequirement, 'requirement_id' | 'description' | 'status'>>
+  exemptions: AppliedExemption[]
+  assessment: { date: string; pages: number; tools: string[] }
+  prepared_at: string
+}
+
+const UNASSESSED_STATUSES = ['pending', 'needs_review']
+
+/**
+ * Only a service where every requirement was assessed and passed is fully compliant; exemptions,
+ * failures and open reviews all make it partially compliant, and it is not compliant when no
+ * requirement passed at all.
+ */
+export function buildAccessibilityStatement(
+  compliance: ComplianceData,
+  organisation: StatementOrganisation,
+  options: {
+    exemptions?: AppliedExemption[]
+    assessmentDate?: string
+    preparedAt?: Date
+    // Defaults to the language the regulations were fetched in
+    locale?: Locale
+  } = {}
+): AccessibilityStatement {
+  const t = translator(options.locale || complianceLocale(compliance) || DEFAULT_LOCALE)
+  // Requirements outside the declared scope do not belong in the statement at all
+  const requirements = complianceRequirements(compliance).filter(
+    req => req.status !== 'not_applicable'
+  )
+  const elements = failingElementsOf(compliance)
+
+  const nonAccessibleContent = requirements
+    .filter(req => FAILING_STATUSES.includes(req.status))
+    .map(req => {
+      const failures: NonAccessibleContent['failures'] = []
+      elements
+        .filter(element => element.requirement_id === req.requirement_id)
+        .forEach(element => {
+          let failure = failures.find(known => known.audit_id === element.audit_id)
+          if (!failure) {
+            failure = { audit_id: element.audit_id, title: element.title, pages: [] }
+            failures.push(failure)
+          }
+          if (element.url && !failure.pages.includes(element.url)) {
+            failure.pages.push(element.url)
+          }
+        })
+      return {
+        requirement_id: req.requirement_id,
+        description: t.requirement(req),
+        legal_reference: req.legal_reference,
+        national_reference: req.national_reference,
+        status: req.status,
+        failures
+      }
+    })
+
+  const compliantCount = requirements.filter(req => req.status === 'compliant').length
+  const conformanceStatus: ConformanceStatus =
+    requirements.length > 0 && compliantCount === requirements.length
+      ? 'fully_compliant'
+      : compliantCount === 0
+        ? 'not_compliant'
+        : 'partially_compliant'
+
+  const exemptions =
+    options.exemptions ??
+    statementExemptionsSchema
+      .catch([])
+      .parse((compliance.exemptions as { applied?: unknown } | undefined)?.applied)
+
+  const jurisdiction = complianceJurisdiction(compliance)
+  const enforcementBody = organisation.enforcement_body || jurisdiction?.enforcement_body
+  if (!enforcementBody) {
+    throw new Error(
+      'The enforcement body is missing: pass it with the organisation details or assess against a national jurisdiction.'
+    )
+  }
+
+  const pages = compliance.pages || []
+  const fetchTimes = pages
+    .map(page => page.auditMetadata?.fetchTime)
+    .filter((time): time is string => Boolean(time))
+    .sort()
+  const preparedAt = options.preparedAt || new Date()
+  // The date the results were assessed on; only results from before that was recorded fall back
+  // to when the latest audit ran
+  const assessedAt =
+    options.assessmentDate ||
+    compliance.assessed_at ||
+    (Array.isArray(compliance.mappedResults)
+      ? undefined
+      : compliance.mappedResults.timeline?.assessment_date) ||
+    fetchTimes[fetchTimes.length - 1] ||
+    preparedAt.toISOString()
+
+  return {
+    locale: t.locale,
+    organisation,
+    jurisdiction,
+    enforcement_body: enforcementBody,
+    conformance_status: conformanceStatus,
+    non_accessible_content: nonAccessibleContent,
+    not_assessed: requirements
+      .filter(req => UNASSESSED_STATUSES.includes(req.status))
+      .map(req => ({
+        requirement_id: req.requirement_id,
+        description: t.requirement(req),
+        status: req.status
+      })),
+    exemptions,
+    assessment: {
+      date: toDate(assessedAt),
+      pages: pages.length,
+      tools: Array.from(
+        new Set(
+          pages.map(page => page.auditMetadata?.source).filter((tool): tool is string => !!tool)
+        )
+      )
+    },
+    prepared_at: toDate(preparedAt.toISOString())
+  }
+}
+
+export function renderStatement(
+  statement: AccessibilityStatement,
+  format: StatementFormat
+): string {
+  return format === 'html' ? renderHtml(statement) : renderMarkdown(statement)
+}
+
+// Statement text as a list of sections; each paragraph is plain text, each list item one line
+type Section = { heading: string; paragraphs: string[]; items?: string[] }
+
+function statementSections(statement: AccessibilityStatement): Section[] {
+  const t = translator(statement.locale)
+  const { organisation, jurisdiction } = statement
+  const pageCount = (count: number) =>
+    t.text(count === 1 ? 'statement.pages_one' : 'statement.pages_other', { count })
+  const nationalLaw =
+    jurisdiction && jurisdiction.code !== BASE_JURISDICTION
+      ? t.text('statement.national_transposition', {
+          jurisdiction: t.jurisdiction(jurisdiction),
+          legislation: jurisdiction.legislation.join('; ')
+        })
+      : t.text('statement.national_law')
+  const sections: Section[] = [
+    {
+      heading: t.text('statement.compliance_status'),
+      paragraphs: [
+        t.text('statement.commitment', {
+          organisation: organisation.name,
+          service: organisation.service,
+          national_law: nationalLaw
+        }),
+        t.text(`statement.${statement.conformance_status}`, { service: organisation.service })
+      ]
+    }
+  ]
+
+  if (statement.non_accessible_content.length > 0) {
+    sections.push({
+      heading: t.text('statement.non_accessible_content'),
+      paragraphs: [t.text('statement.non_accessible_content_intro')],
+      items: statement.non_accessible_content.map(content => {
+        const failures = content.failures
+          .map(
+            failure =>
+              `${failure.title}${failure.pages.length > 0 ? ` (${pageCount(failure.pages.length)})` : ''}`
+          )
+          .join('; ')
+        const reference = [
+          content.requirement_id,
+          content.legal_reference,
+          content.national_reference
+        ]
+          .filter(Boolean)
+          .join(', ')
+        return `${content.description} (${reference})${failures ? `: ${failures}` : ''}`
+      })
+    })
+  }
+
+  if (statement.exemptions.length > 0) {
+    sections.push({
+      heading: t.text('statement.disproportionate_burden'),
+      paragraphs: [t.text('statement.disproportionate_burden_intro')],
+      items: statement.exemptions.map(exemption =>
+        t.text('statement.exemption', {
+          requirement_id: exemption.requirement_id,
+          justification: exemption.justification,
+          legal_reference: exemption.legal_reference,
+          assessed_at: toDate(exemption.assessed_at),
+          renew_by: toDate(exemption.renew_by)
+        })
+      )
+    })
+  }
+
+  if (statement.not_assessed.length > 0) {
+    sections.push({
+      heading: t.text('statement.not_assessed'),
+      paragraphs: [t.text('statement.not_assessed_intro')],
+      items: statement.not_assessed.map(
+        req =>
+          `${req.description} (${req.requirement_id}, ${t.text(req.status === 'needs_review' ? 'statement.awaiting_review' : 'statement.not_tested')})`
+      )
+    })
+  }
+
+  const { assessment } = statement
+  const contact = (key: TextKey, value?: string) => (value ? [t.text(key, { value })] : [])
+  sections.push(
+    {
+      heading: t.text('statement.preparation'),
+      paragraphs: [
+        t.text('statement.prepared', {
+          prepared_at: statement.prepared_at,
+          date: assessment.date,
+          pages:
+            assessment.pages > 0
+              ? t.text('statement.assessed_pages', { pages: pageCount(assessment.pages) })
+              : '',
+          tools:
+            assessment.tools.length > 0
+              ? t.text('statement.assessed_tools', { tools: assessment.tools.join(', ') })
+              : ''
+        })
+      ]
+    },
+    {
+      heading: t.text('statement.feedback'),
+      paragraphs: [organisation.feedback_mechanism],
+      items: [
+        ...contact('statement.email', organisation.contact.email),
+        ...contact('statement.phone', organisation.contact.phone),
+        ...contact('statement.address', organisation.contact.address)
+      ]
+    },
+    {
+      heading: t.text('statement.enforcement'),
+      paragraphs: [
+        t.text('statement.enforcement_intro', { body: statement.enforcement_body.name })
+      ],
+      items: [
+        ...contact('statement.website', statement.enforcement_body.url),
+        ...contact('statement.contact', statement.enforcement_body.contact)
+      ]
+    }
+  )
+  return sections
+}
+
+function statementTitle(statement: AccessibilityStatement): string {
+  return translator(statement.locale).text('statement.title', {
+    service: statement.organisation.service
+  })
+}
+
+function renderMarkdown(statement: AccessibilityStatement): string {
+  const t = translator(statement.locale)
+  const lines = [`# ${statementTitle(statement)}`, '', `> ${t.text('statement.draft_notice')}`, '']
+  if (statement.organisation.service_url) {
+    lines.push(t.text('statement.applies_to', { url: statement.organisation.service_url }), '')
+  }
+  statementSections(statement).forEach(section => {
+    lines.push(`## ${section.heading}`, '')
+    section.paragraphs.forEach(paragraph => lines.push(paragraph, ''))
+    if (section.items && section.items.length > 0) {
+      section.items.forEach(item => lines.push(`- ${item}`))
+      lines.push('')
+    }
+  })
+  return lines.join('\n')
+}
+
+function renderHtml(statement: AccessibilityStatement): string {
+  const t = translator(statement.locale)
+  const title = escapeHtml(statementTitle(statement))
+  const body = statementSections(statement).flatMap((section, index) => [
+    `<section aria-labelledby="section-${index + 1}">`,
+    `<h2 id="section-${index + 1}">${escapeHtml(section.heading)}</h2>`,
+    ...section.paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`),
+    ...(section.items && section.items.length > 0
+      ? ['<ul>', ...section.items.map(item => `<li>${escapeHtml(item)}</li>`), '</ul>']
+      : []),
+    '</section>'
+  ])
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${statement.locale}">`,
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${title}</title>`,
+    '</head>',
+    '<body>',
+    '<main>',
+    `<h1>${title}</h1>`,
+    `<p><strong>${escapeHtml(t.text('statement.draft_notice'))}</strong></p>`,
+    ...(statement.organisation.service_url
+      ? [
+          `<p>${escapeHtml(t.text('statement.applies_to', { url: statement.organisation.service_url }))}</p>`
+        ]
+      : []),
+    ...body,
+    '</main>',
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n')
+}
+
+function toDate(value: string): string {
+  return new Date(value).toISOString().slice(0, 10)
+}
@@ -0,0 +1,74 @@
+import { z } from 'zod'
+import { EAAGuidelines } from './score_logic'
+
+// Which products and services (Article 2, Directive (EU) 2019/882) a client offers, kept in the
+// workspace. Requirements outside that scope are marked not_applicable instead of staying pending.
+export const APPLICABILITY_PATH = 'applicability.json'
+
+export const PRODUCT_AND_SERVICE_TYPES = [
+  // Article 2(1): products
+  'computer_hardware',
+  'self_service_terminal',
+  'communications_terminal',
+  'audiovisual_terminal',
+  'e_reader',
+  // Article 2(2): services
+  'electronic_communications',
+  'audiovisual_access',
+  'passenger_transport',
+  'consumer_banking',
+  'e_books',
+  'e_commerce'
+] as const
+
+export const CHANNELS = ['website', 'ios', 'android'] as const
+
+export const applicabilityProfileSchema = z.object({
+  types: z
+    .array(z.enum(PRODUCT_AND_SERVICE_TYPES))
+    .min(1, 'declare at least one product or service type'),
+  // Leave out (or empty) when the offer is not limited to particular channels
+  channels: z.array(z.enum(CHANNELS)).default([])
+})
+
+export type ApplicabilityProfile = z.infer<typeof applicabilityProfileSchema>
+
+/**
+ * Returns a copy of the regulation data with every requirement outside the profile marked
+ * not_applicable. A requirement is in scope when it applies to one of the declared types and,
+ * if it is tied to channels and the profile declares any, to one of the declared channels; one
+ * without `applies_to` always is.
+ */
+export function applyApplicabilityProfile(
+  guidelines: EAAGuidelines,
+  profile: ApplicabilityProfile
+): EAAGuidelines {
+  const result: EAAGuidelines = JSON.parse(JSON.stringify(guidelines))
+  result.applicability = profile
+
+  result.requirements.forEach(requirement => {
+    const appliesTo = requirement.applies_to
+    if (!appliesTo) return
+
+    const unknownTypes = appliesTo.types.filter(
+      type => !(PRODUCT_AND_SERVICE_TYPES as readonly string[]).includes(type)
+    )
+    if (unknownTypes.length > 0) {
+      throw new Error(
+        `Requirement ${requirement.requirement_id} applies to unknown types: ${unknownTypes.join(', ')}.`
+      )
+    }
+
+    const typeInScope = appliesTo.types.some(type =>
+      (profile.types as readonly string[]).includes(type)
+    )
+    const channelInScope =
+      !appliesTo.channels ||
+      profile.channels.length === 0 ||
+      appliesTo.channels.some(channel => (profile.channels as readonly string[]).includes(channel))
+    if (!typeInScope || !channelInScope) {
+      requirement.status = 'not_applicable'
+    }
+  })
+  return result
+}
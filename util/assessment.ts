@@ -0,0 +1,110 @@
+import { z } from 'zod'
+import { EAAGuidelines } from './score_logic'
+import { mapSiteToEAA, PageAuditInput } from './site_audit'
+import { buildReviewChecklist, ManualAttestation } from './manual_review'
+import { applyExemptionClaims, ExemptionClaim } from './exemptions'
+import { applyJurisdiction } from './jurisdiction'
+import { ApplicabilityProfile, applyApplicabilityProfile } from './applicability'
+import { ComplianceData, complianceRequirements, FAILING_STATUSES } from './compliance'
+import { ComplianceScore } from './scoring'
+import { partitionWaivers, summariseWaivers, Waiver } from './waivers'
+import { EAAMapping } from './mapping'
+import { applyTimeline, ProductFacts } from './timeline'
+
+// The core of run-comparison, shared by the agent and the command line: everything it needs is
+// passed in, so where the files come from (workspace or disk) stays with the caller.
+
+export type AssessmentInput = {
+  regulations: EAAGuidelines
+  pages: PageAuditInput[]
+  // Assess against this member state instead of the one the regulations were fetched for
+  jurisdiction?: string
+  applicability?: ApplicabilityProfile
+  // Contract and terminal dates that decide whether a transitional period covers the client
+  productFacts?: ProductFacts
+  attestations?: ManualAttestation[]
+  exemptionClaims?: ExemptionClaim[]
+  waivers?: Waiver[]
+  // Pinned when replaying an evidence bundle; otherwise the bundled mapping and today
+  mapping?: EAAMapping
+  assessmentDate?: Date
+}
+
+export function assessCompliance(input: AssessmentInput) {
+  const nationalRegulations = input.jurisdiction
+    ? applyJurisdiction(input.regulations, input.jurisdiction)
+    : input.regulations
+
+  // Requirements outside the declared scope become not_applicable before any audit counts
+  const scopedRegulations = input.applicability
+    ? applyApplicabilityProfile(nationalRegulations, input.applicability)
+    : nationalRegulations
+
+  // Obligations, waivers and exemption claims are dated against the assessment, not the clock
+  const assessmentDate = input.assessmentDate || new Date()
+  const regulations = applyTimeline(scopedRegulations, assessmentDate, input.productFacts)
+
+  // Expired waivers no longer hide anything; their findings count as failing again
+  const { active, expired } = partitionWaivers(input.waivers || [], assessmentDate)
+
+  // Run the compliance mapping function for every page and roll it up to site level
+  const attestations = input.attestations || []
+  const {
+    mappedResults,
+    issues,
+    waived,
+    unmappedAudits,
+    pages: pageResults
+  } = mapSiteToEAA(input.pages, regulations, attestations, active, input.mapping)
+  const reviewChecklist = buildReviewChecklist(
+    input.pages,
+    regulations,
+    attestations,
+    input.mapping
+  )
+
+  // Only a valid, unexpired claim on an exemptible requirement makes it exempted
+  const exemptions = applyExemptionClaims(
+    mappedResults,
+    input.exemptionClaims || [],
+    assessmentDate
+  )
+
+  return {
+    assessed_at: assessmentDate.toISOString(),
+    mappedResults,
+    issues,
+    unmappedAudits,
+    pages: pageResults,
+    reviewChecklist,
+    exemptions,
+    waivers: summariseWaivers(active, expired, issues, waived)
+  }
+}
+
+export const compliancePolicySchema = z.object({
+  // Any requirement of these criticalities with failures (non_compliant or partially_compliant)
+  // fails the policy, once it is in force; one still in transition or not yet applicable only
+  // shows up as a deadline
+  failOn: z.array(z.enum(['HIGH', 'MEDIUM', 'LOW'])).default(['HIGH']),
+  minScore: z.number().min(0).max(100).optional()
+})
+
+export type CompliancePolicy = z.infer<typeof compliancePolicySchema>
+
+// Every way the results break the policy; an empty list means they pass
+export function checkCompliancePolicy(
+  compliance: ComplianceData,
+  score: ComplianceScore,
+  policy: CompliancePolicy
+): string[] {
+  const violations = complianceRequirements(compliance)
+    .filter(req => FAILING_STATUSES.includes(req.status) && policy.failOn.includes(req.criticality))
+    .filter(req => !req.obligation || req.obligation.status === 'in_force')
+    .map(req => `${req.requirement_id} (${req.criticality}) is ${req.status}`)
+
+  if (policy.minScore !== undefined && score.finalScore < policy.minScore) {
+    violations.push(`score ${score.finalScore} is below the minimum of ${policy.minScore}`)
+  }
+  return violations
+}
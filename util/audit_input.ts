@@ -0,0 +1,245 @@
+import { z } from 'zod'
+import { LighthouseAudit } from './score_logic'
+import { axeResultsSchema, axeToLighthouseAudits, isAxeResults } from './axe_results'
+import {
+  appScreenUrl,
+  atfResultsSchema,
+  atfToLighthouseAudits,
+  atfXmlToJson,
+  isAtfResults,
+  isXcuiAudit,
+  xcuiAuditSchema,
+  xcuiToLighthouseAudits
+} from './mobile_results'
+
+// Lighthouse major versions whose accessibility audits and LHR layout we have checked against
+const SUPPORTED_LIGHTHOUSE_VERSIONS = { min: 10, max: 12 }
+
+export type AuditMetadata = {
+  source: 'lighthouse' | 'axe' | 'atf' | 'xcuitest'
+  format: 'lhr' | 'audit_map' | 'axe_results' | 'atf_json' | 'atf_xml' | 'xcuitest_audit'
+  url?: string
+  fetchTime?: string
+  formFactor?: string
+  toolVersion?: string
+  accessibilityScore?: number | null
+}
+
+export type AuditInput = {
+  audits: Record<string, LighthouseAudit>
+  metadata: AuditMetadata
+}
+
+const lighthouseAuditSchema = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    description: z.string().default(''),
+    score: z.number().min(0).max(1).nullable(),
+    scoreDisplayMode: z.string(),
+    details: z.any().optional()
+  })
+  .passthrough()
+
+const auditMapSchema = z.record(lighthouseAuditSchema)
+
+const lhrSchema = z
+  .object({
+    lighthouseVersion: z.string(),
+    requestedUrl: z.string().optional(),
+    finalUrl: z.string().optional(),
+    finalDisplayedUrl: z.string().optional(),
+    mainDocumentUrl: z.string().optional(),
+    fetchTime: z.string(),
+    configSettings: z
+      .object({ formFactor: z.enum(['mobile', 'desktop']).optional() })
+      .passthrough()
+      .optional(),
+    categories: z
+      .object({
+        accessibility: z
+          .object({
+            score: z.number().nullable(),
+            auditRefs: z.array(z.object({ id: z.string() }).passthrough()).optional()
+          })
+          .passthrough()
+          .optional()
+      })
+      .passthrough()
+      .optional(),
+    audits: auditMapSchema
+  })
+  .passthrough()
+
+/**
+ * Accepts a full Lighthouse report (`lighthouse --output=json`), a bare map of audit id → audit,
+ * axe-core results, Accessibility Test Framework results (JSON, or XML as text) or an XCUITest
+ * accessibility audit export, validates it and returns the audits in Lighthouse shape together
+ * with what we know about the run.
+ */
+export function parseAuditInput(raw: unknown): AuditInput {
+  if (typeof raw === 'string') {
+    return parseAtfResults(xmlToAtfResults(raw), 'atf_xml')
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Audit file must contain a JSON object.')
+  }
+
+  if (isLighthouseReport(raw)) {
+    return parseLighthouseReport(raw)
+  }
+  if (isAxeResults(raw)) {
+    return parseAxeResults(raw)
+  }
+  if (isAtfResults(raw)) {
+    return parseAtfResults(raw, 'atf_json')
+  }
+  if (isXcuiAudit(raw)) {
+    return parseXcuiAudit(raw)
+  }
+
+  const parsed = auditMapSchema.safeParse(raw)
+  if (!parsed.success) {
+    throw new Error(
+      `Audit file is neither a Lighthouse report nor a map of Lighthouse audits: ${formatZodError(parsed.error)}`
+    )
+  }
+  return {
+    audits: parsed.data as Record<string, LighthouseAudit>,
+    metadata: { source: 'lighthouse', format: 'audit_map' }
+  }
+}
+
+function isLighthouseReport(raw: object): boolean {
+  return 'lighthouseVersion' in raw || ('audits' in raw && 'fetchTime' in raw)
+}
+
+function parseLighthouseReport(raw: object): AuditInput {
+  const parsed = lhrSchema.safeParse(raw)
+  if (!parsed.success) {
+    throw new Error(`Invalid Lighthouse report: ${formatZodError(parsed.error)}`)
+  }
+  const lhr = parsed.data
+
+  const major = parseInt(lhr.lighthouseVersion.split('.')[0], 10)
+  if (
+    isNaN(major) ||
+    major < SUPPORTED_LIGHTHOUSE_VERSIONS.min ||
+    major > SUPPORTED_LIGHTHOUSE_VERSIONS.max
+  ) {
+    throw new Error(
+      `Unsupported Lighthouse version ${lhr.lighthouseVersion}. Supported versions: ${SUPPORTED_LIGHTHOUSE_VERSIONS.min}.x to ${SUPPORTED_LIGHTHOUSE_VERSIONS.max}.x.`
+    )
+  }
+
+  // A full report also holds performance, SEO and best-practice audits; keep the accessibility ones
+  const accessibility = lhr.categories?.accessibility
+  const auditRefs = accessibility?.auditRefs?.map(ref => ref.id)
+  const audits = Object.fromEntries(
+    Object.entries(lhr.audits).filter(([auditId]) => !auditRefs || auditRefs.includes(auditId))
+  ) as Record<string, LighthouseAudit>
+
+  return {
+    audits,
+    metadata: {
+      source: 'lighthouse',
+      format: 'lhr',
+      url: lhr.finalDisplayedUrl || lhr.finalUrl || lhr.mainDocumentUrl || lhr.requestedUrl,
+      fetchTime: lhr.fetchTime,
+      formFactor: lhr.configSettings?.formFactor,
+      toolVersion: lhr.lighthouseVersion,
+      accessibilityScore: accessibility?.score
+    }
+  }
+}
+
+function parseAxeResults(raw: object): AuditInput {
+  const parsed = axeResultsSchema.safeParse(raw)
+  if (!parsed.success) {
+    throw new Error(`Invalid axe-core results: ${formatZodError(parsed.error)}`)
+  }
+  const results = parsed.data
+
+  return {
+    audits: axeToLighthouseAudits(results),
+    metadata: {
+      source: 'axe',
+      format: 'axe_results',
+      url: results.url,
+      fetchTime: results.timestamp,
+      toolVersion: results.testEngine?.version
+    }
+  }
+}
+
+function parseAtfResults(raw: unknown, format: 'atf_json' | 'atf_xml'): AuditInput {
+  const parsed = atfResultsSchema.safeParse(raw)
+  if (!parsed.success) {
+    throw new Error(`Invalid Accessibility Test Framework results: ${formatZodError(parsed.error)}`)
+  }
+  const results = parsed.data
+
+  return {
+    audits: atfToLighthouseAudits(results),
+    metadata: {
+      source: 'atf',
+      format,
+      url: appScreenUrl('android', results.packageName, results.screen),
+      fetchTime: results.timestamp,
+      formFactor: 'mobile',
+      toolVersion: results.atfVersion
+    }
+  }
+}
+
+function xmlToAtfResults(xml: string): unknown {
+  try {
+    return atfXmlToJson(xml)
+  } catch (error) {
+    throw new Error(
+      `Invalid Accessibility Test Framework XML: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+function parseXcuiAudit(raw: object): AuditInput {
+  const parsed = xcuiAuditSchema.safeParse(raw)
+  if (!parsed.success) {
+    throw new Error(`Invalid XCUITest accessibility audit: ${formatZodError(parsed.error)}`)
+  }
+  const audit = parsed.data
+
+  return {
+    audits: xcuiToLighthouseAudits(audit),
+    metadata: {
+      source: 'xcuitest',
+      format: 'xcuitest_audit',
+      url: appScreenUrl('ios', audit.bundleIdentifier, audit.screen),
+      fetchTime: audit.timestamp,
+      formFactor: 'mobile',
+      toolVersion: audit.xcodeVersion
+    }
+  }
+}
+
+/**
+ * Turns the content of an audit file into what parseAuditInput takes: JSON is parsed, XML
+ * (Accessibility Test Framework results) is kept as text so the audit stays as it was received.
+ */
+export function decodeAuditFile(content: string, path: string): unknown {
+  if (content.trimStart().startsWith('<')) return content
+  try {
+    return JSON.parse(content)
+  } catch (error) {
+    throw new Error(
+      `${path} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+export function formatZodError(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 5)
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ')
+}
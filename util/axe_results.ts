@@ -0,0 +1,97 @@
+import { z } from 'zod'
+import { LighthouseAudit } from './score_logic'
+
+// axe-core results as returned by axe.run(), @axe-core/playwright or jest-axe
+
+const axeNodeSchema = z
+  .object({
+    target: z.array(z.union([z.string(), z.array(z.string())])),
+    html: z.string().default(''),
+    impact: z.string().nullable().optional(),
+    failureSummary: z.string().optional()
+  })
+  .passthrough()
+
+const axeRuleResultSchema = z
+  .object({
+    id: z.string(),
+    impact: z.string().nullable().optional(),
+    tags: z.array(z.string()).default([]),
+    description: z.string().default(''),
+    help: z.string(),
+    helpUrl: z.string().optional(),
+    nodes: z.array(axeNodeSchema).default([])
+  })
+  .passthrough()
+
+export const axeResultsSchema = z
+  .object({
+    testEngine: z.object({ name: z.string(), version: z.string() }).passthrough().optional(),
+    url: z.string().optional(),
+    timestamp: z.string().optional(),
+    violations: z.array(axeRuleResultSchema),
+    passes: z.array(axeRuleResultSchema).default([]),
+    incomplete: z.array(axeRuleResultSchema).default([]),
+    inapplicable: z.array(axeRuleResultSchema).default([])
+  })
+  .passthrough()
+
+export type AxeResults = z.infer<typeof axeResultsSchema>
+type AxeRuleResult = z.infer<typeof axeRuleResultSchema>
+
+export function isAxeResults(raw: object): boolean {
+  return 'violations' in raw && Array.isArray((raw as { violations: unknown }).violations)
+}
+
+/**
+ * Converts axe results into the Lighthouse audit shape, which is itself built on axe, so the
+ * rest of the pipeline only deals with one format. `incomplete` becomes a `manual` audit: axe
+ * could not decide, so a person has to.
+ */
+export function axeToLighthouseAudits(results: AxeResults): Record<string, LighthouseAudit> {
+  const audits: Record<string, LighthouseAudit> = {}
+
+  // A rule can show up in several buckets (some nodes pass, others fail); the worst one wins
+  const buckets: Array<[AxeRuleResult[], number | null, string]> = [
+    [results.inapplicable, null, 'notApplicable'],
+    [results.passes, 1, 'binary'],
+    [results.incomplete, null, 'manual'],
+    [results.violations, 0, 'binary']
+  ]
+
+  buckets.forEach(([rules, score, scoreDisplayMode]) => {
+    rules.forEach(rule => {
+      audits[rule.id] = {
+        id: rule.id,
+        title: rule.help,
+        description: rule.helpUrl
+          ? `${rule.description} [Learn more](${rule.helpUrl}).`
+          : rule.description,
+        score,
+        scoreDisplayMode,
+        details: {
+          type: 'table',
+          items: score === 1 ? [] : rule.nodes.map(toLighthouseItem),
+          debugData: { type: 'debugdata', impact: rule.impact, tags: rule.tags }
+        }
+      }
+    })
+  })
+
+  return audits
+}
+
+function toLighthouseItem(node: z.infer<typeof axeNodeSchema>) {
+  // One target entry per frame, shadow roots as nested lists; flatten both into one selector
+  const selector = node.target
+    .map(part => (Array.isArray(part) ? part.join(' >>> ') : part))
+    .join(' >>> ')
+  return {
+    node: {
+      type: 'node',
+      selector,
+      snippet: node.html,
+      explanation: node.failureSummary
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { z } from 'zod'
+import { AppliedJurisdiction, appliedJurisdictionSchema } from './jurisdiction'
+import { applicabilityProfileSchema } from './applicability'
+import { issueFingerprint, issueSchema } from './issues'
+import { waiverResultsSchema } from './waivers'
+import { Locale, localeSchema } from './i18n'
+import { appliedTimelineSchema, obligationSchema } from './timeline'
+
+// compliance.json as run-comparison writes it, for the capabilities that read it back
+export const COMPLIANCE_PATH = 'compliance.json'
+
+export const REQUIREMENT_STATUSES = [
+  'pending',
+  'compliant',
+  'partially_compliant',
+  'non_compliant',
+  'needs_review',
+  'exempted',
+  'not_applicable'
+] as const
+
+// Statuses with findings against them: what policies, statements and work plans count as failing
+export const FAILING_STATUSES: readonly string[] = ['non_compliant', 'partially_compliant']
+
+const complianceRequirementSchema = z
+  .object({
+    requirement_id: z.string(),
+    description: z.string().default(''),
+    category: z.string().default('Uncategorised'),
+    criticality: z.enum(['HIGH', 'MEDIUM', 'LOW']),
+    legal_reference: z.string().default(''),
+    national_reference: z.string().optional(),
+    status: z.enum(REQUIREMENT_STATUSES),
+    obligation: obligationSchema.optional()
+  })
+  .passthrough()
+
+const failingAuditSchema = z
+  .object({
+    id: z.string().optional(),
+    title: z.string().default(''),
+    description: z.string().default(''),
+    details: z
+      .object({ items: z.array(z.record(z.unknown())).optional() })
+      .passthrough()
+      .optional()
+  })
+  .passthrough()
+
+export const complianceSchema = z
+  .object({
+    // The date obligations, waivers and exemptions were checked against; older results lack it
+    assessed_at: z.string().optional(),
+    mappedResults: z.union([
+      z
+        .object({
+          directive: z.string().optional(),
+          dataset: z.object({ version: z.string(), content_hash: z.string() }).optional(),
+          jurisdiction: appliedJurisdictionSchema.optional(),
+          applicability: applicabilityProfileSchema.optional(),
+          locale: localeSchema.optional(),
+          timeline: appliedTimelineSchema.optional(),
+          requirements: z.array(complianceRequirementSchema)
+        })
+        .passthrough(),
+      // Flat requirement list, as calculate-score used to take it
+      z.array(complianceRequirementSchema)
+    ]),
+    // Every failing element, one issue each; results from before the inventory only have
+    // auditFix, with one failing audit per requirement
+    issues: z.array(issueSchema).optional(),
+    waivers: waiverResultsSchema.optional(),
+    auditFix: z.record(failingAuditSchema).optional(),
+    pages: z
+      .array(
+        z
+          .object({
+            url: z.string().optional(),
+            template: z.string().optional(),
+            auditMetadata: z
+              .object({ source: z.string(), fetchTime: z.string().optional() })
+              .passthrough()
+              .optional(),
+            issues: z.array(z.string()).optional(),
+            auditFix: z.record(failingAuditSchema).optional()
+          })
+          .passthrough()
+      )
+      .optional()
+  })
+  .passthrough()
+
+export type ComplianceData = z.infer<typeof complianceSchema>
+export type ComplianceRequirement = z.infer<typeof complianceRequirementSchema>
+
+export type FailingElement = {
+  fingerprint: string
+  url?: string
+  requirement_id: string
+  audit_id: string
+  title: string
+  description: string
+  selector: string
+  node_label: string
+  snippet: string
+  explanation: string
+}
+
+export function complianceJurisdiction(
+  compliance: ComplianceData
+): AppliedJurisdiction | undefined {
+  return Array.isArray(compliance.mappedResults) ? undefined : compliance.mappedResults.jurisdiction
+}
+
+// Language of the requirement texts, as fetch-regulations produced them
+export function complianceLocale(compliance: ComplianceData): Locale | undefined {
+  return Array.isArray(compliance.mappedResults) ? undefined : compliance.mappedResults.locale
+}
+
+export function complianceRequirements(compliance: ComplianceData): ComplianceRequirement[] {
+  return Array.isArray(compliance.mappedResults)
+    ? compliance.mappedResults
+    : compliance.mappedResults.requirements
+}
+
+/**
+ * One entry per failing element and requirement, across every page, taken from the issue
+ * inventory. Older results only have auditFix; there an audit that fails without naming elements
+ * yields a single entry with an empty selector, and Lighthouse nests element data under `node`
+ * while older exports put it on the item itself.
+ */
+export function failingElementsOf(compliance: ComplianceData): FailingElement[] {
+  if (compliance.issues) {
+    return compliance.issues.flatMap(issue =>
+      issue.requirement_ids.map(requirementId => ({
+        fingerprint: issue.fingerprint,
+        url: issue.url,
+        requirement_id: requirementId,
+        audit_id: issue.audit_id,
+        title: issue.title,
+        description: issue.description,
+        selector: issue.selector,
+        node_label: issue.evidence.node_label,
+        snippet: issue.evidence.snippet,
+        explanation: issue.evidence.explanation
+      }))
+    )
+  }
+
+  const sources = compliance.pages
+    ? compliance.pages.map(page => ({ url: page.url, auditFix: page.auditFix || {} }))
+    : [{ url: undefined, auditFix: compliance.auditFix || {} }]
+
+  return sources.flatMap(({ url, auditFix }) =>
+    Object.entries(auditFix).flatMap(([requirementId, audit]) =>
+      (audit.details?.items?.length ? audit.details.items : [{}]).map(item => {
+        const node = (item.node || item) as Record<string, unknown>
+        const auditId = audit.id || requirementId
+        const selector = String(node.selector || '')
+        return {
+          fingerprint: issueFingerprint(auditId, selector, url),
+          url,
+          requirement_id: requirementId,
+          audit_id: auditId,
+          title: audit.title,
+          description: audit.description,
+          selector,
+          node_label: String(node.nodeLabel || ''),
+          snippet: String(node.snippet || ''),
+          explanation: String(node.explanation || '')
+        }
+      })
+    )
+  )
+}
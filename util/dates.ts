@@ -0,0 +1,5 @@
+// Calendar dates as the datasets and workspace files write them: YYYY-MM-DD, in UTC
+
+export function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
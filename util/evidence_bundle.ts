@@ -0,0 +1,429 @@
+import { createHash } from 'crypto'
+import { z } from 'zod'
+import { formatZodError, parseAuditInput } from './audit_input'
+import { assessCompliance } from './assessment'
+import { ApplicabilityProfile, applicabilityProfileSchema } from './applicability'
+import { complianceSchema } from './compliance'
+import { ExemptionClaim, exemptionsFileSchema } from './exemptions'
+import { Locale, localeSchema } from './i18n'
+import { ManualAttestation, manualReviewFileSchema } from './manual_review'
+import { EAAMapping, loadEAAMapping, parseEAAMapping } from './mapping'
+import {
+  buildComplianceReport,
+  renderReport,
+  REPORT_FILE_EXTENSIONS,
+  REPORT_FORMATS,
+  ReportFormat
+} from './report_renderer'
+import { EAAGuidelines } from './score_logic'
+import {
+  calculateComplianceScore,
+  ComplianceScore,
+  SCORING_PROFILES,
+  ScoringProfile,
+  scoringProfileSchema
+} from './scoring'
+import { PageAuditInput } from './site_audit'
+import { readTarGz, writeTarGz } from './tar_archive'
+import { ProductFacts, productFactsSchema } from './timeline'
+import { Waiver, waiversFileSchema } from './waivers'
+import { regulationsFileSchema } from './workspace_files'
+
+// An evidence bundle is a gzipped tar holding everything an assessment was computed from (the
+// audits as received, the regulation data, the mapping table and the scoring profile), what it
+// produced, and a manifest with the SHA-256 of every file. Verifying it checks the hashes and
+// runs the assessment again from the bundled inputs alone.
+
+export const EVIDENCE_BUNDLE_FORMAT = 'eaa-evidence-bundle/v1'
+export const EVIDENCE_BUNDLE_PATH = 'evidence-bundle.tar.gz'
+
+const MANIFEST_PATH = 'manifest.json'
+const MAX_BUNDLE_BYTES = 200 * 1024 * 1024
+// Differences listed per output before the rest are only counted
+const MAX_LISTED_DIFFERENCES = 20
+
+const BUNDLE_PATHS = {
+  regulations: 'inputs/regulations.json',
+  mapping: 'inputs/mapping.json',
+  scoringProfile: 'inputs/scoring-profile.json',
+  applicability: 'inputs/applicability.json',
+  productFacts: 'inputs/product-facts.json',
+  manualReview: 'inputs/manual-review.json',
+  exemptions: 'inputs/exemptions.json',
+  waivers: 'inputs/waivers.json',
+  compliance: 'outputs/compliance.json',
+  score: 'outputs/score.json'
+}
+
+const scoringProfileFileSchema = z.object({ name: z.string(), profile: scoringProfileSchema })
+
+const evidenceManifestSchema = z.object({
+  format: z.literal(EVIDENCE_BUNDLE_FORMAT),
+  generated_at: z.string().datetime(),
+  // Obligations, waivers and exemption claims were dated against this
+  assessment_date: z.string().datetime(),
+  generator: z.object({ name: z.string(), node: z.string() }),
+  tools: z.array(
+    z.object({ source: z.string(), format: z.string(), version: z.string().optional() })
+  ),
+  regulations: z.object({
+    directive: z.string(),
+    dataset: z.object({ version: z.string(), content_hash: z.string() }).optional(),
+    jurisdiction: z.string().optional()
+  }),
+  mapping_version: z.string(),
+  scoring_profile: z.string(),
+  // Member state passed to the assessment, when it overrode that of the regulations
+  jurisdiction: z.string().optional(),
+  report: z
+    .object({
+      path: z.string(),
+      format: z.enum(REPORT_FORMATS),
+      locale: localeSchema.optional()
+    })
+    .optional(),
+  pages: z.array(z.object({ url: z.string(), template: z.string().optional(), file: z.string() })),
+  files: z.array(
+    z.object({
+      path: z.string(),
+      sha256: z.string().regex(/^[0-9a-f]{64}$/),
+      bytes: z.number().int().min(0)
+    })
+  )
+})
+
+export type EvidenceManifest = z.infer<typeof evidenceManifestSchema>
+
+export type EvidenceInput = {
+  // Audits exactly as received, one per page
+  pages: Array<{ url: string; template?: string; audit: unknown }>
+  regulations: EAAGuidelines
+  jurisdiction?: string
+  applicability?: ApplicabilityProfile
+  productFacts?: ProductFacts
+  attestations?: ManualAttestation[]
+  exemptionClaims?: ExemptionClaim[]
+  waivers?: Waiver[]
+  profile?: string
+  report?: { format: ReportFormat; locale?: Locale }
+  // Defaults to when the bundle is generated
+  assessmentDate?: Date
+}
+
+export type EvidenceBundle = {
+  archive: Buffer
+  manifest: EvidenceManifest
+  // SHA-256 of manifest.json; recorded elsewhere, it pins the whole bundle
+  sha256: string
+}
+
+export type EvidenceVerification = {
+  ok: boolean
+  sha256: string
+  manifest: EvidenceManifest
+  problems: string[]
+}
+
+// Everything an assessment is computed from, however it was obtained
+type ReplayInputs = {
+  pages: PageAuditInput[]
+  regulations: EAAGuidelines
+  mapping: EAAMapping
+  profileName: string
+  profile: ScoringProfile
+  jurisdiction?: string
+  applicability?: ApplicabilityProfile
+  productFacts?: ProductFacts
+  attestations?: ManualAttestation[]
+  exemptionClaims?: ExemptionClaim[]
+  waivers?: Waiver[]
+  assessmentDate: Date
+  report?: { format: ReportFormat; locale?: Locale }
+}
+
+/**
+ * Runs the assessment, scores it and renders the report, then packs inputs, outputs and the
+ * manifest into one archive. The outputs are those the bundle will be verified against.
+ */
+export function createEvidenceBundle(
+  input: EvidenceInput,
+  generatedAt: Date = new Date()
+): EvidenceBundle {
+  const profileName = input.profile || 'default'
+  const profile = SCORING_PROFILES[profileName]
+  if (!profile) {
+    throw new Error(
+      `Unknown scoring profile "${profileName}". Available profiles: ${Object.keys(SCORING_PROFILES).join(', ')}.`
+    )
+  }
+
+  const pages = input.pages.map((page, index) => ({
+    url: page.url,
+    template: page.template,
+    file: `inputs/audits/${String(index + 1).padStart(3, '0')}.json`,
+    audit: page.audit,
+    input: parseAudit(page.audit, page.url)
+  }))
+  const mapping = loadEAAMapping()
+  const assessmentDate = input.assessmentDate || generatedAt
+  const outputs = replay({
+    ...input,
+    pages,
+    mapping,
+    profileName,
+    profile,
+    assessmentDate
+  })
+
+  const reportPath = input.report && `outputs/report.${REPORT_FILE_EXTENSIONS[input.report.format]}`
+  const files: Array<{ path: string; content: Buffer }> = [
+    ...pages.map(page => jsonEntry(page.file, page.audit)),
+    jsonEntry(BUNDLE_PATHS.regulations, input.regulations),
+    jsonEntry(BUNDLE_PATHS.mapping, mapping),
+    jsonEntry(BUNDLE_PATHS.scoringProfile, { name: profileName, profile }),
+    ...optionalEntry(BUNDLE_PATHS.applicability, input.applicability),
+    ...optionalEntry(BUNDLE_PATHS.productFacts, input.productFacts),
+    ...optionalEntry(
+      BUNDLE_PATHS.manualReview,
+      input.attestations && { attestations: input.attestations }
+    ),
+    ...optionalEntry(
+      BUNDLE_PATHS.exemptions,
+      input.exemptionClaims && { claims: input.exemptionClaims }
+    ),
+    ...optionalEntry(BUNDLE_PATHS.waivers, input.waivers && { waivers: input.waivers }),
+    jsonEntry(BUNDLE_PATHS.compliance, outputs.compliance),
+    jsonEntry(BUNDLE_PATHS.score, outputs.score),
+    ...(reportPath && outputs.report !== undefined
+      ? [{ path: reportPath, content: Buffer.from(outputs.report) }]
+      : [])
+  ]
+
+  const manifest: EvidenceManifest = {
+    format: EVIDENCE_BUNDLE_FORMAT,
+    generated_at: generatedAt.toISOString(),
+    assessment_date: assessmentDate.toISOString(),
+    generator: { name: 'eaa-legislator', node: process.version },
+    tools: uniqueTools(pages.map(page => page.input)),
+    regulations: {
+      directive: input.regulations.directive,
+      dataset: input.regulations.dataset,
+      jurisdiction: input.regulations.jurisdiction?.code
+    },
+    mapping_version: mapping.version,
+    scoring_profile: profileName,
+    jurisdiction: input.jurisdiction,
+    report: reportPath && input.report ? { path: reportPath, ...input.report } : undefined,
+    pages: pages.map(({ url, template, file }) => ({ url, template, file })),
+    files: files.map(file => ({
+      path: file.path,
+      sha256: sha256(file.content),
+      bytes: file.content.length
+    }))
+  }
+
+  const manifestEntry = jsonEntry(MANIFEST_PATH, manifest)
+  return {
+    archive: writeTarGz([manifestEntry, ...files], generatedAt),
+    manifest,
+    sha256: sha256(manifestEntry.content)
+  }
+}
+
+/**
+ * Checks every file against the manifest, then runs the mapping and scoring again from the
+ * bundled inputs and compares the results with the bundled outputs. Throws only when the archive
+ * is not an evidence bundle at all; everything else that does not match ends up in `problems`.
+ */
+export function verifyEvidenceBundle(archive: Buffer): EvidenceVerification {
+  const entries = readTarGz(archive, MAX_BUNDLE_BYTES)
+  const manifestEntry = entries.find(entry => entry.path === MANIFEST_PATH)
+  if (!manifestEntry) {
+    throw new Error(`Not an evidence bundle: ${MANIFEST_PATH} is missing.`)
+  }
+  const parsed = evidenceManifestSchema.safeParse(parseJson(manifestEntry.content, MANIFEST_PATH))
+  if (!parsed.success) {
+    throw new Error(`Invalid ${MANIFEST_PATH}: ${formatZodError(parsed.error)}`)
+  }
+  const manifest = parsed.data
+  const problems: string[] = []
+
+  // Integrity: every listed file present and unchanged, nothing unlisted
+  const contents = new Map<string, Buffer>()
+  entries.forEach(entry => {
+    if (contents.has(entry.path)) problems.push(`${entry.path} appears more than once`)
+    contents.set(entry.path, entry.content)
+  })
+  manifest.files.forEach(file => {
+    const content = contents.get(file.path)
+    if (!content) {
+      problems.push(`${file.path} is listed in the manifest but missing`)
+    } else if (sha256(content) !== file.sha256 || content.length !== file.bytes) {
+      problems.push(`${file.path} does not match its SHA-256 in the manifest`)
+    }
+  })
+  entries
+    .filter(entry => entry.path !== MANIFEST_PATH)
+    .filter(entry => !manifest.files.some(file => file.path === entry.path))
+    .forEach(entry => problems.push(`${entry.path} is not listed in the manifest`))
+
+  // Reproduction: the same inputs must give the same outputs
+  try {
+    const read = <T extends z.ZodTypeAny>(path: string, schema: T): z.infer<T> => {
+      const content = contents.get(path)
+      if (!content) throw new Error(`${path} is missing`)
+      const result = schema.safeParse(parseJson(content, path))
+      if (!result.success) throw new Error(`Invalid ${path}: ${formatZodError(result.error)}`)
+      return result.data
+    }
+    const readOptional = <T extends z.ZodTypeAny>(path: string, schema: T) =>
+      contents.has(path) ? read(path, schema) : undefined
+
+    const mapping = parseEAAMapping(read(BUNDLE_PATHS.mapping, z.unknown()))
+    if (mapping.version !== manifest.mapping_version) {
+      problems.push(
+        `${BUNDLE_PATHS.mapping} is version ${mapping.version}, the manifest says ${manifest.mapping_version}`
+      )
+    }
+    const scoring = read(BUNDLE_PATHS.scoringProfile, scoringProfileFileSchema)
+    const outputs = replay({
+      pages: manifest.pages.map(page => ({
+        url: page.url,
+        template: page.template,
+        input: parseAudit(read(page.file, z.unknown()), page.url)
+      })),
+      regulations: read(BUNDLE_PATHS.regulations, regulationsFileSchema),
+      mapping,
+      profileName: scoring.name,
+      profile: scoring.profile,
+      jurisdiction: manifest.jurisdiction,
+      applicability: readOptional(BUNDLE_PATHS.applicability, applicabilityProfileSchema),
+      productFacts: readOptional(BUNDLE_PATHS.productFacts, productFactsSchema),
+      attestations: readOptional(BUNDLE_PATHS.manualReview, manualReviewFileSchema)?.attestations,
+      exemptionClaims: readOptional(BUNDLE_PATHS.exemptions, exemptionsFileSchema)?.claims,
+      waivers: readOptional(BUNDLE_PATHS.waivers, waiversFileSchema)?.waivers,
+      assessmentDate: new Date(manifest.assessment_date),
+      report: manifest.report
+    })
+
+    compareJson(
+      BUNDLE_PATHS.compliance,
+      read(BUNDLE_PATHS.compliance, z.unknown()),
+      outputs.compliance,
+      problems
+    )
+    compareJson(BUNDLE_PATHS.score, read(BUNDLE_PATHS.score, z.unknown()), outputs.score, problems)
+    if (manifest.report) {
+      const bundled = contents.get(manifest.report.path)
+      if (!bundled) {
+        problems.push(`${manifest.report.path} is missing`)
+      } else if (bundled.toString('utf8') !== outputs.report) {
+        problems.push(`${manifest.report.path} differs from the report rendered again`)
+      }
+    }
+  } catch (error) {
+    problems.push(
+      `Cannot reproduce the assessment: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  return {
+    ok: problems.length === 0,
+    sha256: sha256(manifestEntry.content),
+    manifest,
+    problems
+  }
+}
+
+// The pipeline of run-comparison, calculate-score and process-results, as the command line runs it
+function replay(inputs: ReplayInputs): {
+  compliance: unknown
+  score: ComplianceScore
+  report?: string
+} {
+  const assessment = assessCompliance(inputs)
+  const compliance = complianceSchema.parse(JSON.parse(JSON.stringify(assessment)))
+  const score = calculateComplianceScore(compliance, inputs.profileName, inputs.profile)
+  const report =
+    inputs.report &&
+    renderReport(
+      buildComplianceReport(compliance, score, inputs.report.locale),
+      inputs.report.format
+    )
+  return { compliance: JSON.parse(JSON.stringify(assessment)), score, report }
+}
+
+function parseAudit(raw: unknown, url: string) {
+  try {
+    return parseAuditInput(raw)
+  } catch (error) {
+    throw new Error(`Audit of ${url}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+function uniqueTools(inputs: PageAuditInput['input'][]): EvidenceManifest['tools'] {
+  const tools: EvidenceManifest['tools'] = []
+  inputs.forEach(({ metadata }) => {
+    const tool = { source: metadata.source, format: metadata.format, version: metadata.toolVersion }
+    const known = tools.some(
+      existing =>
+        existing.source === tool.source &&
+        existing.format === tool.format &&
+        existing.version === tool.version
+    )
+    if (!known) tools.push(tool)
+  })
+  return tools
+}
+
+// Lists the paths where two JSON documents differ, key order aside
+function compareJson(path: string, bundled: unknown, replayed: unknown, problems: string[]) {
+  const differences = jsonDifferences(bundled, replayed, '$')
+  if (differences.length === 0) return
+
+  const listed = differences.slice(0, MAX_LISTED_DIFFERENCES).join(', ')
+  const more = differences.length - MAX_LISTED_DIFFERENCES
+  problems.push(
+    `${path} differs from the assessment run again at ${listed}${more > 0 ? ` and ${more} more` : ''}`
+  )
+}
+
+function jsonDifferences(a: unknown, b: unknown, path: string): string[] {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const length = Math.max(a.length, b.length)
+    return Array.from({ length }, (_, index) =>
+      jsonDifferences(a[index], b[index], `${path}[${index}]`)
+    ).flat()
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).sort()
+    return keys.flatMap(key => jsonDifferences(a[key], b[key], `${path}.${key}`))
+  }
+  return a === b ? [] : [path]
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function jsonEntry(path: string, value: unknown) {
+  return { path, content: Buffer.from(JSON.stringify(value, null, 2)) }
+}
+
+function optionalEntry(path: string, value: unknown) {
+  return value === undefined ? [] : [jsonEntry(path, value)]
+}
+
+function parseJson(content: Buffer, path: string): unknown {
+  try {
+    return JSON.parse(content.toString('utf8'))
+  } catch (error) {
+    throw new Error(
+      `${path} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+function sha256(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex')
+}
@@ -0,0 +1,86 @@
+import { z } from 'zod'
+import { toIsoDate } from './dates'
+import { EAAGuidelines } from './score_logic'
+
+// Exemption claims a client has assessed and documented, kept in the workspace
+export const EXEMPTIONS_PATH = 'exemptions.json'
+
+export const LEGAL_BASES = {
+  disproportionate_burden: 'Article 14 and Annex VI, Directive (EU) 2019/882',
+  fundamental_alteration: 'Article 14(1)(a), Directive (EU) 2019/882',
+  microenterprise: 'Article 4(5), Directive (EU) 2019/882'
+} as const
+
+// Article 14(6): a disproportionate burden assessment has to be renewed at least every five years
+const MAX_ASSESSMENT_VALIDITY_YEARS = 5
+
+const isoDate = z.string().refine(value => !isNaN(Date.parse(value)), 'must be an ISO 8601 date')
+
+export const exemptionClaimSchema = z.object({
+  requirement_id: z.string().min(1),
+  legal_basis: z.enum(
+    Object.keys(LEGAL_BASES) as [keyof typeof LEGAL_BASES, ...Array<keyof typeof LEGAL_BASES>]
+  ),
+  justification: z.string().min(1),
+  assessed_at: isoDate,
+  renew_by: isoDate,
+  assessed_by: z.string().optional()
+})
+
+export const exemptionsFileSchema = z.object({
+  claims: z.array(exemptionClaimSchema)
+})
+
+export type ExemptionClaim = z.infer<typeof exemptionClaimSchema>
+
+export const appliedExemptionSchema = exemptionClaimSchema.extend({ legal_reference: z.string() })
+
+export type AppliedExemption = z.infer<typeof appliedExemptionSchema>
+
+export type RejectedExemption = {
+  claim: ExemptionClaim
+  reason: 'unknown_requirement' | 'not_applicable' | 'not_exemptible' | 'invalid_period' | 'expired'
+}
+
+/**
+ * Marks a requirement exempted only when a valid, unexpired claim covers it and the requirement
+ * is exemptible. Every claim ends up either in `applied` or, with the reason, in `rejected`.
+ */
+export function applyExemptionClaims(
+  mappedResults: EAAGuidelines,
+  claims: ExemptionClaim[],
+  assessmentDate: Date = new Date()
+): { applied: AppliedExemption[]; rejected: RejectedExemption[] } {
+  const applied: AppliedExemption[] = []
+  const rejected: RejectedExemption[] = []
+
+  claims.forEach(claim => {
+    const requirement = mappedResults.requirements.find(
+      req => req.requirement_id === claim.requirement_id
+    )
+    const assessedAt = new Date(claim.assessed_at)
+    const renewBy = new Date(claim.renew_by)
+    const latestRenewal = new Date(assessedAt)
+    latestRenewal.setFullYear(latestRenewal.getFullYear() + MAX_ASSESSMENT_VALIDITY_YEARS)
+
+    // Expiry is compared by day: a claim still holds on the day it has to be renewed by
+    if (!requirement) {
+      rejected.push({ claim, reason: 'unknown_requirement' })
+    } else if (requirement.status === 'not_applicable') {
+      rejected.push({ claim, reason: 'not_applicable' })
+    } else if (!requirement.exemptible) {
+      rejected.push({ claim, reason: 'not_exemptible' })
+    } else if (renewBy <= assessedAt || renewBy > latestRenewal) {
+      rejected.push({ claim, reason: 'invalid_period' })
+    } else if (toIsoDate(renewBy) < toIsoDate(assessmentDate)) {
+      rejected.push({ claim, reason: 'expired' })
+    } else {
+      const exemption = { ...claim, legal_reference: LEGAL_BASES[claim.legal_basis] }
+      requirement.status = 'exempted'
+      requirement.exemption = exemption
+      applied.push(exemption)
+    }
+  })
+
+  return { applied, rejected }
+}
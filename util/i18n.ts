@@ -0,0 +1,162 @@
+import { z } from 'zod'
+import en from './locales/en.json'
+import de from './locales/de.json'
+import fr from './locales/fr.json'
+import es from './locales/es.json'
+import nl from './locales/nl.json'
+import { EAAGuidelines } from './score_logic'
+import { AppliedJurisdiction } from './jurisdiction'
+import { loadRegulations } from './regulation_datasets'
+
+// Languages reports, statements and regulation texts can be produced in. Catalogs live in
+// locales/, one per language; English is the source, and any string another catalog leaves out
+// falls back to English on its own.
+
+export const LOCALES = ['en', 'de', 'fr', 'es', 'nl'] as const
+export type Locale = (typeof LOCALES)[number]
+export const DEFAULT_LOCALE: Locale = 'en'
+
+export const localeSchema = z.enum(LOCALES)
+
+export type TextKey = keyof typeof en.text
+
+const catalogSchema = z
+  .object({
+    // English name of the language, used when asking the model to answer in it
+    language: z.string(),
+    // Requirement texts by requirement_id; requirements not listed keep the dataset's text
+    requirements: z.record(z.object({ description: z.string().optional() })).default({}),
+    // Keyed by the English category of the dataset
+    categories: z.record(z.string()).default({}),
+    statuses: z.record(z.string()).default({}),
+    criticalities: z.record(z.string()).default({}),
+    confidence: z.record(z.string()).default({}),
+    // Member state names by jurisdiction code
+    jurisdictions: z.record(z.string()).default({}),
+    text: z.record(z.string()).default({})
+  })
+  .strict()
+
+type Catalog = z.infer<typeof catalogSchema>
+
+const CATALOG_FILES: Record<Locale, unknown> = { en, de, fr, es, nl }
+
+let cachedCatalogs: Record<Locale, Catalog> | undefined
+
+/**
+ * Parses the catalogs and checks that they only translate requirements the latest dataset has
+ * and strings English has, using no placeholder the English string does not fill.
+ */
+export function loadCatalogs(): Record<Locale, Catalog> {
+  if (cachedCatalogs) return cachedCatalogs
+
+  const problems: string[] = []
+  const catalogs = Object.fromEntries(
+    LOCALES.map(locale => {
+      const parsed = catalogSchema.safeParse(CATALOG_FILES[locale])
+      if (!parsed.success) {
+        throw new Error(`Invalid ${locale} catalog: ${parsed.error.message}`)
+      }
+      return [locale, parsed.data]
+    })
+  ) as Record<Locale, Catalog>
+
+  const english = catalogs[DEFAULT_LOCALE]
+  const knownRequirements = new Set(loadRegulations().requirements.map(req => req.requirement_id))
+  LOCALES.filter(locale => locale !== DEFAULT_LOCALE).forEach(locale => {
+    const catalog = catalogs[locale]
+    Object.keys(catalog.requirements)
+      .filter(requirementId => !knownRequirements.has(requirementId))
+      .forEach(requirementId =>
+        problems.push(`${locale} translates unknown requirement ${requirementId}`)
+      )
+    ;(['statuses', 'criticalities', 'confidence', 'text'] as const).forEach(group => {
+      Object.entries(catalog[group]).forEach(([key, value]) => {
+        const source = english[group][key]
+        if (source === undefined) {
+          problems.push(`${locale} translates unknown ${group} entry ${key}`)
+          return
+        }
+        placeholders(value)
+          .filter(name => !placeholders(source).includes(name))
+          .forEach(name => problems.push(`${locale} ${key} uses unknown placeholder {${name}}`))
+      })
+    })
+  })
+  if (problems.length > 0) {
+    throw new Error(`Invalid translation catalogs: ${problems.join('; ')}`)
+  }
+
+  cachedCatalogs = catalogs
+  return catalogs
+}
+
+export type Translator = {
+  locale: Locale
+  // English name of the language
+  language: string
+  text(key: TextKey, params?: Record<string, string | number>): string
+  status(status: string): string
+  criticality(criticality: string): string
+  confidence(confidence: string): string
+  category(category: string): string
+  jurisdiction(jurisdiction: Pick<AppliedJurisdiction, 'code' | 'name'>): string
+  requirement(requirement: { requirement_id: string; description: string }): string
+}
+
+export function translator(locale: Locale = DEFAULT_LOCALE): Translator {
+  const catalogs = loadCatalogs()
+  const catalog = catalogs[locale]
+  const english = catalogs[DEFAULT_LOCALE]
+  const lookup = (
+    group: 'statuses' | 'criticalities' | 'confidence' | 'categories' | 'jurisdictions',
+    key: string,
+    fallback: string
+  ) => catalog[group][key] ?? english[group][key] ?? fallback
+
+  return {
+    locale,
+    language: catalog.language,
+    text(key, params = {}) {
+      const template = catalog.text[key] ?? english.text[key]
+      return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+        params[name] === undefined ? match : String(params[name])
+      )
+    },
+    status: status => lookup('statuses', status, status),
+    criticality: criticality => lookup('criticalities', criticality, criticality),
+    confidence: confidence => lookup('confidence', confidence, confidence),
+    category: category => lookup('categories', category, category),
+    jurisdiction: jurisdiction => lookup('jurisdictions', jurisdiction.code, jurisdiction.name),
+    requirement: requirement =>
+      catalog.requirements[requirement.requirement_id]?.description ?? requirement.description
+  }
+}
+
+/**
+ * Records `locale` on the regulations so later steps default to it, with each requirement's text
+ * in that language next to the English one. The English description and category stay as they
+ * are: catalogs, scores and comparisons key on them, and reports translate when they render.
+ */
+export function localiseRegulations(regulations: EAAGuidelines, locale: Locale): EAAGuidelines {
+  const t = translator(locale)
+  return {
+    ...regulations,
+    locale,
+    requirements: regulations.requirements.map(requirement =>
+      locale === DEFAULT_LOCALE
+        ? requirement
+        : {
+            ...requirement,
+            translation: {
+              description: t.requirement(requirement),
+              category: t.category(requirement.category)
+            }
+          }
+    )
+  }
+}
+
+function placeholders(value: string): string[] {
+  return Array.from(value.matchAll(/\{(\w+)\}/g), match => match[1])
+}
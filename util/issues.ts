@@ -0,0 +1,115 @@
+import { createHash } from 'crypto'
+import { z } from 'zod'
+import { LighthouseAudit } from './score_logic'
+
+// The issue inventory: one issue per failing element and page, linked to every requirement the
+// failing audit affects. The fingerprint only depends on the rule, the element and the page, so
+// the same issue keeps it from run to run and can be tracked, assigned and counted over time.
+
+export const issueSchema = z
+  .object({
+    fingerprint: z.string(),
+    audit_id: z.string(),
+    title: z.string().default(''),
+    description: z.string().default(''),
+    url: z.string().optional(),
+    selector: z.string().default(''),
+    requirement_ids: z.array(z.string()),
+    evidence: z
+      .object({
+        snippet: z.string().default(''),
+        node_label: z.string().default(''),
+        explanation: z.string().default('')
+      })
+      .default({})
+  })
+  .passthrough()
+
+export type Issue = z.infer<typeof issueSchema>
+
+/**
+ * One issue per element the audit names (or one for the whole page when it names none).
+ * Lighthouse nests element data under `node`; older exports put it on the item itself.
+ * Elements that normalise to the same selector are one issue.
+ */
+export function issuesFromAudit(
+  auditId: string,
+  audit: Pick<LighthouseAudit, 'title' | 'description' | 'details'>,
+  requirementIds: string[],
+  url?: string
+): Issue[] {
+  const items: Array<Record<string, unknown>> = audit.details?.items?.length
+    ? audit.details.items
+    : [{}]
+  const issues = new Map<string, Issue>()
+
+  items.forEach(item => {
+    const node = (item.node || item) as Record<string, unknown>
+    const selector = String(node.selector || '')
+    const fingerprint = issueFingerprint(auditId, selector, url)
+    if (issues.has(fingerprint)) return
+
+    issues.set(fingerprint, {
+      fingerprint,
+      audit_id: auditId,
+      title: audit.title || '',
+      description: audit.description || '',
+      url,
+      selector,
+      requirement_ids: [...requirementIds],
+      evidence: {
+        snippet: String(node.snippet || ''),
+        node_label: String(node.nodeLabel || ''),
+        explanation: String(node.explanation || '')
+      }
+    })
+  })
+  return Array.from(issues.values())
+}
+
+// Issues with the same fingerprint are one; their requirements are combined
+export function mergeIssues(issues: Issue[]): Issue[] {
+  const merged = new Map<string, Issue>()
+  issues.forEach(issue => {
+    const existing = merged.get(issue.fingerprint)
+    if (!existing) {
+      merged.set(issue.fingerprint, { ...issue, requirement_ids: [...issue.requirement_ids] })
+      return
+    }
+    issue.requirement_ids
+      .filter(id => !existing.requirement_ids.includes(id))
+      .forEach(id => existing.requirement_ids.push(id))
+  })
+  return Array.from(merged.values())
+}
+
+export function issueFingerprint(auditId: string, selector: string, url?: string): string {
+  const key = [auditId, normaliseSelector(selector), normaliseUrl(url)].join('\n')
+  return createHash('sha256').update(key).digest('hex').slice(0, 16)
+}
+
+/**
+ * Drops what changes between builds without the element changing: whitespace and combinator
+ * spacing, class names generated by CSS-in-JS libraries and next/font, the hash CSS modules append (a suffix
+ * with a digit, so BEM elements stay) and React's generated ids.
+ */
+export function normaliseSelector(selector: string): string {
+  return selector
+    .replace(/\s*(>>>|[>+~])\s*/g, ' $1 ')
+    .replace(/\.(?:css|sc|jsx|emotion|styled)-[\w-]+|\.__className_\w+/g, '')
+    .replace(/(\.[A-Za-z][\w-]*?)__(?=[\w-]*\d)[\w-]{5,}/g, '$1')
+    .replace(/#(?:\\:|:)r[0-9a-z]+(?:\\:|:)/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Query string and fragment are dropped, so tracking parameters do not make a new page
+function normaliseUrl(url?: string): string {
+  if (!url) return ''
+  try {
+    const parsed = new URL(url)
+    return `${parsed.protocol}//${parsed.host.toLowerCase()}${parsed.pathname.replace(/\/+$/, '')}`
+  } catch {
+    return url.trim()
+  }
+}
@@ -0,0 +1,152 @@
+import { z } from 'zod'
+import jurisdictionData from './jurisdictions.json'
+import { EAAGuidelines } from './score_logic'
+import { loadRegulations } from './regulation_datasets'
+
+// National transpositions of the directive, layered on top of the regulation dataset.
+// Profiles live in jurisdictions.json, keyed by ISO 3166-1 alpha-2 country code.
+
+export const BASE_JURISDICTION = 'EU'
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be a YYYY-MM-DD date')
+
+const profileSchema = z.object({
+  name: z.string(),
+  legislation: z.array(z.string()).min(1),
+  enforcement_body: z.object({ name: z.string(), url: z.string().optional() }),
+  // Provisions of national law for individual requirements; the others are covered by the
+  // legislation as a whole, which reports and statements cite
+  references: z.record(z.string()).default({}),
+  // Where national law is stricter than the directive
+  overrides: z
+    .record(
+      z.object({
+        criticality: z.enum(['HIGH', 'MEDIUM', 'LOW']).optional(),
+        exemptible: z.boolean().optional()
+      })
+    )
+    .default({}),
+  // Where national law applies a requirement later than the directive (Article 31)
+  applies_from: z.record(isoDate).default({}),
+  // Where national law shortens a transitional period, by transition id
+  transitions: z
+    .record(
+      z.object({
+        until: isoDate.optional(),
+        max_years: z.number().int().positive().optional(),
+        legal_reference: z.string()
+      })
+    )
+    .default({})
+})
+
+export type JurisdictionProfile = z.infer<typeof profileSchema>
+
+export const appliedJurisdictionSchema = z.object({
+  code: z.string(),
+  name: z.string(),
+  legislation: z.array(z.string()),
+  enforcement_body: profileSchema.shape.enforcement_body.optional()
+})
+
+export type AppliedJurisdiction = z.infer<typeof appliedJurisdictionSchema>
+
+let cachedProfiles: Record<string, JurisdictionProfile> | undefined
+
+/**
+ * Parses the jurisdiction profiles and checks that they only name requirements the latest
+ * directive dataset has.
+ */
+export function loadJurisdictions(): Record<string, JurisdictionProfile> {
+  if (cachedProfiles) return cachedProfiles
+
+  const parsed = z.record(profileSchema).safeParse(jurisdictionData)
+  if (!parsed.success) {
+    throw new Error(`Invalid jurisdiction profiles: ${parsed.error.message}`)
+  }
+
+  const latest = loadRegulations()
+  const knownRequirements = new Set(latest.requirements.map(req => req.requirement_id))
+  const problems: string[] = []
+  Object.entries(parsed.data).forEach(([code, profile]) => {
+    if (code === BASE_JURISDICTION) {
+      problems.push(`${code} is reserved for the directive itself`)
+    }
+    ;[
+      ...Object.keys(profile.references),
+      ...Object.keys(profile.overrides),
+      ...Object.keys(profile.applies_from)
+    ]
+      .filter(requirementId => !knownRequirements.has(requirementId))
+      .forEach(requirementId =>
+        problems.push(`${code} references unknown requirement ${requirementId}`)
+      )
+    Object.keys(profile.transitions)
+      .filter(id => !latest.transitions?.[id])
+      .forEach(id => problems.push(`${code} references unknown transition ${id}`))
+  })
+  if (problems.length > 0) {
+    throw new Error(`Invalid jurisdiction profiles: ${problems.join('; ')}`)
+  }
+
+  cachedProfiles = parsed.data
+  return cachedProfiles
+}
+
+export function jurisdictionCodes(): [string, ...string[]] {
+  return [BASE_JURISDICTION, ...Object.keys(loadJurisdictions())]
+}
+
+/**
+ * Returns a copy of the regulation data assessed against one jurisdiction: requirements the
+ * profile names a provision for get it as national reference next to the Annex I one, and
+ * national rules override criticality, exemptibility, application dates or transitional periods.
+ * Data already profiled for another country is refused rather than layered twice.
+ */
+export function applyJurisdiction(guidelines: EAAGuidelines, code: string): EAAGuidelines {
+  const current = guidelines.jurisdiction?.code
+  if (current === code) return guidelines
+  if (current && current !== BASE_JURISDICTION) {
+    throw new Error(
+      `The regulations were already profiled for ${current}; fetch them again for ${code}.`
+    )
+  }
+
+  const result: EAAGuidelines = JSON.parse(JSON.stringify(guidelines))
+  if (code === BASE_JURISDICTION) {
+    result.jurisdiction = {
+      code,
+      name: 'European Union',
+      legislation: ['Directive (EU) 2019/882 (European Accessibility Act)']
+    }
+    return result
+  }
+
+  const profile = loadJurisdictions()[code]
+  if (!profile) {
+    throw new Error(
+      `Unknown jurisdiction "${code}". Available jurisdictions: ${jurisdictionCodes().join(', ')}.`
+    )
+  }
+
+  result.jurisdiction = {
+    code,
+    name: profile.name,
+    legislation: profile.legislation,
+    enforcement_body: profile.enforcement_body
+  }
+  result.requirements.forEach(requirement => {
+    const reference = profile.references[requirement.requirement_id]
+    if (reference) requirement.national_reference = reference
+    Object.assign(requirement, profile.overrides[requirement.requirement_id] || {})
+    const appliesFrom = profile.applies_from[requirement.requirement_id]
+    if (requirement.timeline && appliesFrom) {
+      requirement.timeline.applies_from = appliesFrom
+    }
+  })
+  Object.entries(profile.transitions).forEach(([id, national]) => {
+    const transition = result.transitions?.[id]
+    if (transition) Object.assign(transition, national)
+  })
+  return result
+}
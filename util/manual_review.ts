@@ -0,0 +1,107 @@
+import { z } from 'zod'
+import { EAAMapping, loadEAAMapping, traceRule } from './mapping'
+import { EAAGuidelines } from './score_logic'
+import { PageAuditInput } from './site_audit'
+
+// Tester verdicts on audits no tool can decide, kept in the workspace between comparison runs
+export const MANUAL_REVIEW_PATH = 'manual-review.json'
+
+export const manualAttestationSchema = z.object({
+  audit_id: z.string().min(1),
+  // Without a url the verdict covers every page the audit was run on
+  url: z.string().optional(),
+  result: z.enum(['pass', 'fail']),
+  notes: z.string().default(''),
+  tester: z.string().min(1),
+  reviewed_at: z.string()
+})
+
+export const manualReviewFileSchema = z.object({
+  attestations: z.array(manualAttestationSchema)
+})
+
+export type ManualAttestation = z.infer<typeof manualAttestationSchema>
+
+export type ReviewChecklistItem = {
+  audit_id: string
+  title: string
+  description: string
+  url: string
+  requirements: string[]
+  wcag: string[]
+  status: 'open' | 'passed' | 'failed'
+  attestation?: ManualAttestation
+}
+
+/**
+ * The attestation that applies to an audit on a page: a page-specific verdict wins over a
+ * site-wide one, and the latest verdict wins over earlier ones.
+ */
+export function findAttestation(
+  attestations: ManualAttestation[],
+  auditId: string,
+  url?: string
+): ManualAttestation | undefined {
+  const candidates = attestations
+    .filter(attestation => attestation.audit_id === auditId)
+    .filter(attestation => !attestation.url || attestation.url === url)
+    .sort((a, b) => {
+      if (!!a.url !== !!b.url) return a.url ? -1 : 1
+      return b.reviewed_at.localeCompare(a.reviewed_at)
+    })
+  return candidates[0]
+}
+
+// Replaces the verdict for the same audit and page, so a re-test does not pile up duplicates
+export function upsertAttestation(
+  attestations: ManualAttestation[],
+  attestation: ManualAttestation
+): ManualAttestation[] {
+  return [
+    ...attestations.filter(
+      existing => existing.audit_id !== attestation.audit_id || existing.url !== attestation.url
+    ),
+    attestation
+  ]
+}
+
+/**
+ * Lists every audit that needs a human verdict (Lighthouse `manual`, axe `incomplete`) per page,
+ * with the requirements it feeds into and the verdict recorded so far.
+ */
+export function buildReviewChecklist(
+  pages: PageAuditInput[],
+  eaaGuidelines: EAAGuidelines,
+  attestations: ManualAttestation[],
+  mapping: EAAMapping = loadEAAMapping()
+): ReviewChecklistItem[] {
+  const knownRequirements = new Set(
+    eaaGuidelines.requirements
+      .filter(req => req.status !== 'not_applicable')
+      .map(req => req.requirement_id)
+  )
+
+  return pages.flatMap(page =>
+    Object.entries(page.input.audits)
+      .filter(([, audit]) => audit.scoreDisplayMode === 'manual')
+      .map(([auditId, audit]) => {
+        const trace = traceRule(
+          auditId,
+          mapping,
+          knownRequirements,
+          audit.details?.debugData?.tags || []
+        )
+        const attestation = findAttestation(attestations, auditId, page.url)
+        return {
+          audit_id: auditId,
+          title: audit.title,
+          description: audit.description,
+          url: page.url,
+          requirements: typeof trace === 'string' ? [] : trace.requirements,
+          wcag: typeof trace === 'string' ? [] : trace.wcag,
+          status: !attestation ? 'open' : attestation.result === 'pass' ? 'passed' : 'failed',
+          attestation
+        }
+      })
+  )
+}
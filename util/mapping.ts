@@ -0,0 +1,134 @@
+import { z } from 'zod'
+import mappingData from './eaa_mapping.json'
+
+// Audit rule → WCAG 2.1 success criteria → EN 301 549 clauses → EAA Annex I requirements.
+// The dataset lives in eaa_mapping.json so it can be reviewed and versioned on its own.
+// Rules checked on native apps go through the software clauses (11.x) instead of the web ones.
+
+const mappingSchema = z.object({
+  version: z.string().regex(/^\d+\.\d+\.\d+$/, 'must be a semantic version'),
+  wcag_version: z.string(),
+  en301549_version: z.string(),
+  rules: z.record(z.array(z.string())),
+  native_rules: z.record(z.array(z.string())).default({}),
+  criteria: z.record(
+    z.object({
+      title: z.string(),
+      level: z.enum(['A', 'AA', 'AAA']),
+      wcag_version: z.string().optional(),
+      en301549: z.array(z.string()),
+      en301549_software: z.array(z.string()).default([]),
+      note: z.string().optional()
+    })
+  ),
+  clauses: z.record(
+    z.object({
+      title: z.string(),
+      requirements: z.array(z.string())
+    })
+  )
+})
+
+export type EAAMapping = z.infer<typeof mappingSchema>
+
+export type UnmappedReason =
+  'unknown_rule' | 'no_wcag_criterion' | 'no_en301549_clause' | 'no_eaa_requirement'
+
+export type RuleTrace = {
+  wcag: string[]
+  en301549: string[]
+  requirements: string[]
+}
+
+let cachedMapping: EAAMapping | undefined
+
+// Fail at startup rather than on the first comparison if the bundled dataset is broken
+export function loadEAAMapping(): EAAMapping {
+  if (!cachedMapping) cachedMapping = parseEAAMapping(mappingData)
+  return cachedMapping
+}
+
+/**
+ * Parses a mapping dataset and checks that every reference points at an entry that exists,
+ * so a broken dataset fails loudly instead of silently dropping audits.
+ */
+export function parseEAAMapping(data: unknown): EAAMapping {
+  const parsed = mappingSchema.safeParse(data)
+  if (!parsed.success) {
+    throw new Error(`Invalid EAA mapping dataset: ${parsed.error.message}`)
+  }
+
+  const mapping = parsed.data
+  const problems: string[] = []
+
+  Object.entries({ ...mapping.rules, ...mapping.native_rules }).forEach(([ruleId, criteria]) => {
+    criteria
+      .filter(sc => !mapping.criteria[sc])
+      .forEach(sc => problems.push(`rule "${ruleId}" references unknown criterion ${sc}`))
+  })
+  Object.keys(mapping.native_rules)
+    .filter(ruleId => mapping.rules[ruleId])
+    .forEach(ruleId => problems.push(`rule "${ruleId}" is listed as both a web and a native rule`))
+  Object.entries(mapping.criteria).forEach(([sc, criterion]) => {
+    ;[...criterion.en301549, ...criterion.en301549_software]
+      .filter(clause => !mapping.clauses[clause])
+      .forEach(clause => problems.push(`criterion ${sc} references unknown clause ${clause}`))
+  })
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid EAA mapping dataset ${mapping.version}: ${problems.join('; ')}`)
+  }
+  return mapping
+}
+
+/**
+ * Follows one audit rule through the mapping. `knownRequirements` limits the result to the
+ * requirement ids present in the regulation data being assessed. When the audit engine tagged
+ * the rule with success criteria (axe's `wcag143`-style tags), those tags take precedence over
+ * the dataset entry for the rule. Native rules follow the criteria to their software clauses.
+ */
+export function traceRule(
+  ruleId: string,
+  mapping: EAAMapping,
+  knownRequirements: Set<string>,
+  tags: string[] = []
+): RuleTrace | UnmappedReason {
+  const native = ruleId in mapping.native_rules
+  const taggedCriteria = criteriaFromTags(tags).filter(sc => mapping.criteria[sc])
+  const criteria =
+    taggedCriteria.length > 0
+      ? taggedCriteria
+      : native
+        ? mapping.native_rules[ruleId]
+        : mapping.rules[ruleId]
+  if (!criteria) return tags.includes('best-practice') ? 'no_wcag_criterion' : 'unknown_rule'
+  if (criteria.length === 0) return 'no_wcag_criterion'
+
+  const clauses = unique(
+    criteria.flatMap(sc =>
+      native ? mapping.criteria[sc].en301549_software : mapping.criteria[sc].en301549
+    )
+  )
+  if (clauses.length === 0) return 'no_en301549_clause'
+
+  const requirements = unique(
+    clauses.flatMap(clause => mapping.clauses[clause].requirements)
+  ).filter(id => knownRequirements.has(id))
+  if (requirements.length === 0) return 'no_eaa_requirement'
+
+  return { wcag: criteria, en301549: clauses, requirements }
+}
+
+// `wcag143` → 1.4.3, `wcag1410` → 1.4.10; level tags such as `wcag2aa` or `wcag21a` are skipped
+export function criteriaFromTags(tags: string[]): string[] {
+  return unique(
+    tags
+      .map(tag => /^wcag(\d)(\d)(\d+)$/.exec(tag))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(([, principle, guideline, criterion]) => `${principle}.${guideline}.${criterion}`)
+  )
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values))
+}
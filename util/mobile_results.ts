@@ -0,0 +1,373 @@
+import { z } from 'zod'
+import { LighthouseAudit } from './score_logic'
+
+// Native app results: Android's Accessibility Test Framework (ATF, as run by Espresso's
+// AccessibilityChecks or exported from Accessibility Scanner) in JSON or XML, and the issues of
+// an XCUITest performAccessibilityAudit() run exported as JSON. Rules become `atf-…` and `xcui-…`
+// audits so the mapping can trace them to the EN 301 549 software clauses instead of the web ones.
+
+const boundsSchema = z.object({
+  left: z.number(),
+  top: z.number(),
+  right: z.number(),
+  bottom: z.number()
+})
+
+const atfElementSchema = z
+  .object({
+    className: z.string().default(''),
+    resourceName: z.string().optional(),
+    contentDescription: z.string().optional(),
+    text: z.string().optional(),
+    boundsInScreen: boundsSchema.optional()
+  })
+  .passthrough()
+
+export const ATF_RESULT_TYPES = ['ERROR', 'WARNING', 'INFO', 'RESOLVED', 'NOT_RUN'] as const
+
+const atfResultSchema = z
+  .object({
+    // Simple or fully qualified, e.g. TouchTargetSizeCheck
+    checkClass: z.string(),
+    type: z.enum(ATF_RESULT_TYPES),
+    message: z.string().default(''),
+    element: atfElementSchema.optional()
+  })
+  .passthrough()
+
+export const atfResultsSchema = z
+  .object({
+    atfVersion: z.string().optional(),
+    packageName: z.string(),
+    // Activity or screen name; together with the package it identifies the "page"
+    screen: z.string().optional(),
+    timestamp: z.string().optional(),
+    results: z.array(atfResultSchema)
+  })
+  .passthrough()
+
+export type AtfResults = z.infer<typeof atfResultsSchema>
+type AtfResult = z.infer<typeof atfResultSchema>
+
+export const XCUI_AUDIT_TYPES = [
+  'contrast',
+  'elementDetection',
+  'hitRegion',
+  'sufficientElementDescription',
+  'dynamicType',
+  'textClipped',
+  'trait',
+  'action',
+  'parentChild'
+] as const
+
+const xcuiElementSchema = z
+  .object({
+    elementType: z.string().default('other'),
+    identifier: z.string().optional(),
+    label: z.string().optional(),
+    frame: z
+      .object({ x: z.number(), y: z.number(), width: z.number(), height: z.number() })
+      .optional()
+  })
+  .passthrough()
+
+const xcuiIssueSchema = z
+  .object({
+    auditType: z.string(),
+    compactDescription: z.string(),
+    detailedDescription: z.string().default(''),
+    element: xcuiElementSchema.optional()
+  })
+  .passthrough()
+
+export const xcuiAuditSchema = z
+  .object({
+    bundleIdentifier: z.string(),
+    screen: z.string().optional(),
+    xcodeVersion: z.string().optional(),
+    timestamp: z.string().optional(),
+    // The audit types that ran (`all` for every one); a type without issues passed
+    auditTypes: z.array(z.string()).min(1),
+    issues: z.array(xcuiIssueSchema)
+  })
+  .passthrough()
+
+export type XcuiAudit = z.infer<typeof xcuiAuditSchema>
+type XcuiIssue = z.infer<typeof xcuiIssueSchema>
+
+// ATF reports findings without titles; these say what passing the check means
+const ATF_TITLES: Record<string, string> = {
+  'atf-touch-target-size': 'Touch targets are large enough',
+  'atf-speakable-text-present': 'Elements have a label for screen readers',
+  'atf-editable-content-desc': 'Editable fields are not labelled with a content description',
+  'atf-text-contrast': 'Text has sufficient contrast',
+  'atf-image-contrast': 'Images have sufficient contrast',
+  'atf-clickable-span': 'Links in text are reachable by accessibility services',
+  'atf-class-name': 'Elements expose a role accessibility services support',
+  'atf-traversal-order': 'Traversal order follows the visual order',
+  'atf-link-purpose-unclear': 'Link text describes where the link goes',
+  'atf-text-size': 'Text scales with the system font size',
+  'atf-unexposed-text': 'Visible text is exposed to accessibility services',
+  'atf-duplicate-speakable-text': 'Elements on the screen have distinct labels',
+  'atf-duplicate-clickable-bounds': 'Clickable elements do not share the same bounds',
+  'atf-redundant-description': 'Labels do not repeat the element type'
+}
+
+const XCUI_TITLES: Record<string, string> = {
+  'xcui-contrast': 'Text and controls have sufficient contrast',
+  'xcui-element-detection': 'Elements are exposed to assistive technologies',
+  'xcui-hit-region': 'Touch targets are large enough',
+  'xcui-sufficient-element-description': 'Elements have a sufficient label',
+  'xcui-dynamic-type': 'Text supports Dynamic Type',
+  'xcui-text-clipped': 'Text is not clipped at larger sizes',
+  'xcui-trait': 'Elements have the right traits',
+  'xcui-action': 'Elements expose their actions',
+  'xcui-parent-child': 'Parent and child elements are exposed consistently'
+}
+
+export function isAtfResults(raw: object): boolean {
+  const results = (raw as { results?: unknown }).results
+  return (
+    Array.isArray(results) &&
+    ('atfVersion' in raw ||
+      results.some(result => !!result && typeof result === 'object' && 'checkClass' in result))
+  )
+}
+
+export function isXcuiAudit(raw: object): boolean {
+  return 'auditTypes' in raw && 'issues' in raw
+}
+
+// Where the findings were made, in the form issue fingerprints and reports use for page URLs
+export function appScreenUrl(platform: 'android' | 'ios', app: string, screen?: string): string {
+  const path = screen ? `/${encodeURIComponent(screen)}` : ''
+  return `${platform}-app://${app}${path}`
+}
+
+/**
+ * Converts ATF results into Lighthouse-shaped audits, one per check. A check fails with one item
+ * per element it raised an error on; warnings alone make it a `manual` audit, since ATF is not
+ * sure, and a check that only reported INFO or RESOLVED results passes.
+ */
+export function atfToLighthouseAudits(results: AtfResults): Record<string, LighthouseAudit> {
+  const byRule = new Map<string, AtfResult[]>()
+  results.results.forEach(result => {
+    const ruleId = `atf-${kebabCase(checkName(result.checkClass).replace(/Check$/, ''))}`
+    byRule.set(ruleId, [...(byRule.get(ruleId) || []), result])
+  })
+
+  const audits: Record<string, LighthouseAudit> = {}
+  byRule.forEach((ruleResults, ruleId) => {
+    const errors = ruleResults.filter(result => result.type === 'ERROR')
+    const warnings = ruleResults.filter(result => result.type === 'WARNING')
+    const ran = ruleResults.some(result => result.type !== 'NOT_RUN')
+    const [score, scoreDisplayMode, failing]: [number | null, string, AtfResult[]] =
+      errors.length > 0
+        ? [0, 'binary', errors]
+        : warnings.length > 0
+          ? [null, 'manual', warnings]
+          : ran
+            ? [1, 'binary', []]
+            : [null, 'notApplicable', []]
+
+    audits[ruleId] = {
+      id: ruleId,
+      title: ATF_TITLES[ruleId] || checkName(ruleResults[0].checkClass),
+      description: `Accessibility Test Framework ${checkName(ruleResults[0].checkClass)} on ${results.packageName}${results.screen ? ` (${results.screen})` : ''}.`,
+      score,
+      scoreDisplayMode,
+      details: { type: 'table', items: failing.map(atfItem) }
+    }
+  })
+  return audits
+}
+
+/**
+ * Converts an XCUITest audit export into Lighthouse-shaped audits, one per audit type that ran
+ * or reported issues, with one item per element an issue names.
+ */
+export function xcuiToLighthouseAudits(audit: XcuiAudit): Record<string, LighthouseAudit> {
+  const ran = audit.auditTypes.includes('all') ? [...XCUI_AUDIT_TYPES] : audit.auditTypes
+  const types = Array.from(new Set([...ran, ...audit.issues.map(issue => issue.auditType)]))
+
+  const audits: Record<string, LighthouseAudit> = {}
+  types.forEach(type => {
+    const ruleId = `xcui-${kebabCase(type)}`
+    const issues = audit.issues.filter(issue => issue.auditType === type)
+    audits[ruleId] = {
+      id: ruleId,
+      title: XCUI_TITLES[ruleId] || type,
+      description: `XCUITest accessibility audit (${type}) on ${audit.bundleIdentifier}${audit.screen ? ` (${audit.screen})` : ''}.`,
+      score: issues.length > 0 ? 0 : 1,
+      scoreDisplayMode: 'binary',
+      details: { type: 'table', items: issues.map(xcuiItem) }
+    }
+  })
+  return audits
+}
+
+// Native elements have no CSS selector; the resource name or identifier is the stable locator,
+// then the label, and the position on screen only as a last resort
+function atfItem(result: AtfResult) {
+  const element = result.element || { className: '' }
+  const bounds = element.boundsInScreen
+  const position = bounds && `[${bounds.left},${bounds.top}][${bounds.right},${bounds.bottom}]`
+  const label = element.contentDescription || element.text
+  const attributes = [
+    element.resourceName && `resource-id="${element.resourceName}"`,
+    element.contentDescription !== undefined && `content-desc="${element.contentDescription}"`,
+    element.text !== undefined && `text="${element.text}"`,
+    position && `bounds="${position}"`
+  ].filter(Boolean)
+  return {
+    node: {
+      type: 'node',
+      selector: locator(element.className, element.resourceName, label, position),
+      snippet: `<${[element.className, ...attributes].join(' ')}>`,
+      nodeLabel: label || '',
+      explanation: result.message
+    }
+  }
+}
+
+function xcuiItem(issue: XcuiIssue) {
+  const element = issue.element || { elementType: 'other' }
+  const frame = element.frame
+  const position = frame && `{{${frame.x}, ${frame.y}}, {${frame.width}, ${frame.height}}}`
+  const attributes = [
+    element.identifier && `identifier: '${element.identifier}'`,
+    element.label !== undefined && `label: '${element.label}'`,
+    position && `frame: ${position}`
+  ].filter(Boolean)
+  return {
+    node: {
+      type: 'node',
+      selector: locator(element.elementType, element.identifier, element.label, position),
+      snippet: [element.elementType, ...attributes].join(', '),
+      nodeLabel: element.label || '',
+      explanation: [issue.compactDescription, issue.detailedDescription].filter(Boolean).join(' ')
+    }
+  }
+}
+
+function locator(type: string, id?: string, label?: string, position?: string): string {
+  if (id) return `${type}#${id}`
+  if (label) return `${type}[label="${label}"]`
+  return position ? `${type}@${position}` : type
+}
+
+// com.google.android.apps.common.testing.accessibility.framework.checks.TextContrastCheck → TextContrastCheck
+function checkName(checkClass: string): string {
+  return checkClass.slice(checkClass.lastIndexOf('.') + 1)
+}
+
+function kebabCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase()
+}
+
+/**
+ * Reads the XML form of ATF results into the JSON shape:
+ *
+ *   <AccessibilityCheckResults atfVersion="4.1.1" packageName="com.example" screen="Checkout">
+ *     <result checkClass="TouchTargetSizeCheck" type="ERROR" message="…">
+ *       <element className="android.widget.ImageButton" resourceName="com.example:id/close"
+ *                contentDescription="Close" bounds="[0,0][96,96]"/>
+ *     </result>
+ *   </AccessibilityCheckResults>
+ *
+ * Bounds use the `[left,top][right,bottom]` notation of uiautomator dumps.
+ */
+export function atfXmlToJson(xml: string): unknown {
+  const root = parseXml(xml)
+  if (root.name !== 'AccessibilityCheckResults') {
+    throw new Error(`Expected an <AccessibilityCheckResults> document, found <${root.name}>.`)
+  }
+  return {
+    ...root.attributes,
+    results: root.children
+      .filter(child => child.name === 'result')
+      .map(result => {
+        const element = result.children.find(child => child.name === 'element')
+        return {
+          ...result.attributes,
+          element: element && atfXmlElement(element.attributes)
+        }
+      })
+  }
+}
+
+function atfXmlElement(attributes: Record<string, string>) {
+  const { bounds, ...rest } = attributes
+  const match = bounds && /^\[(-?\d+),(-?\d+)\]\[(-?\d+),(-?\d+)\]$/.exec(bounds)
+  if (bounds && !match) {
+    throw new Error(`Invalid element bounds "${bounds}": expected [left,top][right,bottom].`)
+  }
+  return match
+    ? {
+        ...rest,
+        boundsInScreen: {
+          left: Number(match[1]),
+          top: Number(match[2]),
+          right: Number(match[3]),
+          bottom: Number(match[4])
+        }
+      }
+    : rest
+}
+
+type XmlElement = { name: string; attributes: Record<string, string>; children: XmlElement[] }
+
+const XML_TAG =
+  /<(\/?)([A-Za-z_][\w.:-]*)((?:\s+[A-Za-z_][\w.:-]*\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y
+const XML_ATTRIBUTE = /([A-Za-z_][\w.:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+// Elements and attributes only, which is all ATF writes; text content is ignored and a DOCTYPE
+// (and with it any entity definition) is refused
+function parseXml(xml: string): XmlElement {
+  const body = xml.replace(/^\uFEFF?\s*<\?xml[^?]*\?>/, '').replace(/<!--[\s\S]*?-->/g, '')
+  if (/<!DOCTYPE/i.test(body)) {
+    throw new Error('XML documents with a DOCTYPE are not accepted.')
+  }
+
+  const stack: XmlElement[] = []
+  let root: XmlElement | undefined
+  let offset = 0
+  while (offset < body.length) {
+    const next = body.indexOf('<', offset)
+    if (next === -1) break
+    XML_TAG.lastIndex = next
+    const tag = XML_TAG.exec(body)
+    if (!tag) throw new Error(`Malformed XML at character ${next}.`)
+    offset = XML_TAG.lastIndex
+
+    const [, closing, name, attributeText, selfClosing] = tag
+    if (closing) {
+      const open = stack.pop()
+      if (open?.name !== name) throw new Error(`Unexpected </${name}> at character ${next}.`)
+      continue
+    }
+    if (root && stack.length === 0) throw new Error('XML has more than one root element.')
+
+    const element: XmlElement = { name, attributes: {}, children: [] }
+    for (const [, key, double, single] of attributeText.matchAll(XML_ATTRIBUTE)) {
+      element.attributes[key] = decodeEntities(double ?? single)
+    }
+    if (stack.length > 0) stack[stack.length - 1].children.push(element)
+    else root = element
+    if (!selfClosing) stack.push(element)
+  }
+
+  if (!root) throw new Error('XML has no root element.')
+  if (stack.length > 0) throw new Error(`XML ends before </${stack[stack.length - 1].name}>.`)
+  return root
+}
+
+function decodeEntities(value: string): string {
+  const named: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, code: string) => {
+    if (code.startsWith('#x')) return String.fromCodePoint(parseInt(code.slice(2), 16))
+    if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10))
+    return named[code] ?? entity
+  })
+}
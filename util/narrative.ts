@@ -0,0 +1,239 @@
+import { createHash } from 'crypto'
+import { ActionableInsight, ComplianceReport } from './report_renderer'
+import { DEFAULT_LOCALE, Locale, translator, Translator } from './i18n'
+
+// The AI-written part of process-results: a plain-language explanation with fix steps for every
+// failing requirement. The model only sits behind NarrativeModel, so the agent plugs in its own
+// and anything else (a local fake) can stand in for it.
+
+export type NarrativeMessage = { role: 'system' | 'user'; content: string }
+
+export interface NarrativeModel {
+  // The answer text, or undefined when the model gave none
+  complete(messages: NarrativeMessage[]): Promise<string | undefined>
+}
+
+export interface NarrativeCache {
+  get(key: string): Promise<string | undefined>
+  set(key: string, value: string): Promise<void>
+}
+
+export type NarrativeOptions = {
+  cache?: NarrativeCache
+  // Prompt size per model call; a requirement with more findings is split over several calls
+  maxChunkChars?: number
+}
+
+export type Narrative = {
+  text: string
+  chunks: number
+  cached: number
+  // Requirements written from the template because the model failed or answered off-format
+  fallbacks: string[]
+}
+
+// Changing the prompt changes this, so cached answers to the old prompt are not reused
+export const PROMPT_VERSION = 'narrative/v2'
+
+const DEFAULT_MAX_CHUNK_CHARS = 12_000
+
+// Long snippets and explanations are cut, so one element cannot fill a chunk on its own
+const MAX_FIELD_CHARS = 500
+
+// The instructions stay in English; the headings the answer must use are in the report language
+function systemPrompt(t: Translator): string {
+  return `You are an AI accessibility compliance assistant. Your task is to explain the failing elements of one requirement of an accessibility audit in a clear, developer-friendly way.
+
+**Instructions:**
+1. **Explain each problem in non-technical terms** so that non-experts can understand the impact.
+2. **Provide solutions with step-by-step guidance** on how to fix accessibility issues.
+3. Answer in Markdown with exactly these two sections, and do not repeat the requirement heading:
+   - \`#### ${t.text('narrative.fix_steps')}\`: a numbered list of actionable, developer-friendly steps.
+   - \`#### ${t.text('narrative.acceptance_criteria')}\`: a bulleted list of checks that show the issue is resolved (e.g., "Button must have an accessible label").
+4. Write the whole answer in ${t.language}, keeping element names, selectors and code as they are.`
+}
+
+/**
+ * Writes the narrative one requirement at a time, splitting requirements with many findings
+ * into several calls. Answers are cached by a hash of the prompt; a failed call or an answer
+ * without the required sections is replaced by template text built from the findings.
+ */
+export async function writeNarrative(
+  report: ComplianceReport,
+  model: NarrativeModel,
+  options: NarrativeOptions = {}
+): Promise<Narrative | undefined> {
+  const failing = report.requirements.filter(
+    req => req.status === 'non_compliant' || req.status === 'partially_compliant'
+  )
+  if (failing.length === 0) return undefined
+
+  const t = translator(report.locale)
+  const maxChunkChars = options.maxChunkChars || DEFAULT_MAX_CHUNK_CHARS
+  const narrative: Narrative = { text: '', chunks: 0, cached: 0, fallbacks: [] }
+  const sections: string[] = []
+
+  for (const requirement of failing) {
+    const insights = report.actionable_insights.filter(
+      insight => insight.requirement_id === requirement.requirement_id
+    )
+    const header = [
+      `Requirement: ${requirement.requirement_id}`,
+      `Category: ${requirement.category}`,
+      `Criticality: ${requirement.criticality}`,
+      `Status: ${requirement.status}`,
+      `Legal reference: ${requirement.legal_reference}`,
+      `Description: ${requirement.description}`
+    ].join('\n')
+
+    const parts: string[] = []
+    for (const chunk of chunkInsights(insights, maxChunkChars - header.length)) {
+      narrative.chunks++
+      const prompt = `${header}\n\nFailing elements:\n${chunk.map(describeInsight).join('\n\n') || 'No specific elements identified.'}`
+      const answer = await completeCached(t, model, prompt, options.cache)
+      if (answer.cached) narrative.cached++
+      if (answer.text === undefined) {
+        addFallback(narrative, requirement.requirement_id)
+        parts.push(templateNarrative(chunk, t.locale))
+      } else {
+        parts.push(answer.text)
+      }
+    }
+
+    sections.push(
+      `### ${t.text('narrative.requirement', {
+        requirement_id: requirement.requirement_id,
+        description: requirement.description
+      })}\n\n${parts.join('\n\n')}`
+    )
+  }
+
+  narrative.text = sections.join('\n\n')
+  return narrative
+}
+
+// Deterministic text with the same sections the model is asked for
+export function templateNarrative(
+  insights: ActionableInsight[],
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  const t = translator(locale)
+  const onPage = (insight: ActionableInsight) =>
+    insight.page ? t.text('narrative.on_page', { page: insight.page }) : ''
+  const steps = insights.length
+    ? insights.map(
+        (insight, index) =>
+          `${index + 1}. ${insight.failing_element}${insight.selector ? ` (\`${insight.selector}\`)` : ''}${onPage(insight)}: ${insight.issue} ${insight.suggestion}`
+      )
+    : [`1. ${t.text('narrative.default_step')}`]
+  const criteria = insights.length
+    ? insights.map(
+        insight =>
+          `- ${t.text('narrative.criterion', {
+            audit_id: insight.audit_id,
+            target: insight.selector ? `\`${insight.selector}\`` : t.text('narrative.this_issue'),
+            on_page: onPage(insight)
+          })}`
+      )
+    : [`- ${t.text('narrative.default_criterion')}`]
+  return [
+    `#### ${t.text('narrative.fix_steps')}`,
+    '',
+    ...steps,
+    '',
+    `#### ${t.text('narrative.acceptance_criteria')}`,
+    '',
+    ...criteria
+  ].join('\n')
+}
+
+// In-process cache, dropping the oldest entries beyond `maxEntries`
+export function memoryNarrativeCache(maxEntries = 500): NarrativeCache {
+  const entries = new Map<string, string>()
+  return {
+    async get(key) {
+      return entries.get(key)
+    },
+    async set(key, value) {
+      entries.delete(key)
+      entries.set(key, value)
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string)
+      }
+    }
+  }
+}
+
+async function completeCached(
+  t: Translator,
+  model: NarrativeModel,
+  prompt: string,
+  cache?: NarrativeCache
+): Promise<{ text?: string; cached: boolean }> {
+  const system = systemPrompt(t)
+  const key = createHash('sha256').update(`${PROMPT_VERSION}\n${system}\n${prompt}`).digest('hex')
+  const hit = await cache?.get(key)
+  if (hit !== undefined) return { text: hit, cached: true }
+
+  let text: string | undefined
+  try {
+    text = await model.complete([
+      { role: 'system', content: system },
+      { role: 'user', content: prompt }
+    ])
+  } catch (error) {
+    console.error('Narrative model call failed:', error)
+    return { cached: false }
+  }
+
+  const missing = [t.text('narrative.fix_steps'), t.text('narrative.acceptance_criteria')].filter(
+    section =>
+      !text ||
+      !new RegExp(`^#+\\s*${section.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'im').test(text)
+  )
+  if (!text || missing.length > 0) {
+    console.error(`Narrative answer rejected, missing: ${missing.join(', ') || 'text'}`)
+    return { cached: false }
+  }
+
+  await cache?.set(key, text.trim())
+  return { text: text.trim(), cached: false }
+}
+
+// Groups findings so each group's description stays within `maxChars`; a single oversized
+// finding still gets a group of its own
+function chunkInsights(insights: ActionableInsight[], maxChars: number): ActionableInsight[][] {
+  const chunks: ActionableInsight[][] = [[]]
+  let size = 0
+  insights.forEach(insight => {
+    const length = describeInsight(insight).length
+    const current = chunks[chunks.length - 1]
+    if (current.length > 0 && size + length > maxChars) {
+      chunks.push([insight])
+      size = length
+    } else {
+      current.push(insight)
+      size += length
+    }
+  })
+  return chunks
+}
+
+function describeInsight(insight: ActionableInsight): string {
+  return [
+    `- Element: ${truncate(insight.failing_element)}`,
+    `  Issue: ${insight.issue}`,
+    `  Page: ${insight.page || 'N/A'}`,
+    `  Selector: ${insight.selector || 'N/A'}`,
+    `  Explanation: ${truncate(insight.explanation) || 'No explanation provided.'}`,
+    `  Guidance: ${truncate(insight.suggestion)}`
+  ].join('\n')
+}
+
+function truncate(value: string): string {
+  return value.length > MAX_FIELD_CHARS ? `${value.slice(0, MAX_FIELD_CHARS)}…` : value
+}
+
+function addFallback(narrative: Narrative, requirementId: string) {
+  if (!narrative.fallbacks.includes(requirementId)) narrative.fallbacks.push(requirementId)
+}
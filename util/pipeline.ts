@@ -0,0 +1,178 @@
+import { z } from 'zod'
+
+// The compliance pipeline create_task_sequence turns into workspace tasks. A workspace can
+// replace the default with its own definition; the task ids of the last run are kept next to it
+// so the run can be resumed.
+export const PIPELINE_PATH = 'pipeline.json'
+export const PIPELINE_STATE_PATH = 'pipeline-state.json'
+
+const stepSchema = z.object({
+  key: z.string().regex(/^[a-z0-9-]+$/, 'must be lowercase letters, digits and dashes'),
+  capability: z.string(),
+  description: z.string(),
+  // Workspace files the step reads and writes; they are named in the task so the assignee knows
+  // what to attach and what to hand on
+  inputs: z.array(z.string()).default([]),
+  outputs: z.array(z.string()).min(1, 'a step must hand at least one file to the next'),
+  dependsOn: z.array(z.string()).default([])
+})
+
+export const pipelineSchema = z.object({
+  // Agent the tasks are assigned to; this agent when left out
+  assignee: z.number().int().positive().optional(),
+  steps: z.array(stepSchema).min(1)
+})
+
+export const pipelineStateSchema = z.object({
+  started_at: z.string(),
+  assignee: z.number(),
+  tasks: z.record(z.number())
+})
+
+export type PipelineStep = z.infer<typeof stepSchema>
+export type Pipeline = z.infer<typeof pipelineSchema>
+export type PipelineState = z.infer<typeof pipelineStateSchema>
+
+// Scoring and report generation only need the comparison, so they run side by side
+export const DEFAULT_PIPELINE: Pipeline = {
+  steps: [
+    {
+      key: 'fetch-regulations',
+      capability: 'fetch-regulations',
+      description: 'Retrieve the latest European Accessibility Act (EAA) regulations.',
+      inputs: [],
+      outputs: ['regulations.json'],
+      dependsOn: []
+    },
+    {
+      key: 'run-comparison',
+      capability: 'run-comparison',
+      description: 'Map the audit results against the EAA compliance regulations.',
+      inputs: ['audit.json, audits/*.json or audit-manifest.json', 'regulations.json'],
+      outputs: ['compliance.json'],
+      dependsOn: ['fetch-regulations']
+    },
+    {
+      key: 'calculate-score',
+      capability: 'calculate-score',
+      description: 'Determine the compliance score based on the mapped audit results.',
+      inputs: ['compliance.json'],
+      outputs: ['score.json'],
+      dependsOn: ['run-comparison']
+    },
+    {
+      key: 'process-results',
+      capability: 'process-results',
+      description: 'Summarize the compliance results into an accessible report.',
+      inputs: ['compliance.json'],
+      outputs: ['report.md'],
+      dependsOn: ['run-comparison']
+    }
+  ]
+}
+
+// keep: the task is done or still queued; reset: put the existing task back to to-do;
+// create: no task yet; replace: cancel the task, because a step it waits for gets a new one
+export type StepAction = 'keep' | 'reset' | 'create' | 'replace'
+
+export type StepPlan = { step: PipelineStep; action: StepAction; taskId?: number; status?: string }
+
+const RERUN_STATUSES = ['error', 'cancelled']
+
+/**
+ * Checks that step keys are unique and that dependencies name defined steps without forming a
+ * cycle, and returns the steps in an order where each comes after its dependencies.
+ */
+export function orderPipelineSteps(pipeline: Pipeline): PipelineStep[] {
+  const steps = new Map<string, PipelineStep>()
+  pipeline.steps.forEach(step => {
+    if (steps.has(step.key)) {
+      throw new Error(`Pipeline step "${step.key}" is defined twice.`)
+    }
+    steps.set(step.key, step)
+  })
+  pipeline.steps.forEach(step => {
+    const unknown = step.dependsOn.filter(key => !steps.has(key))
+    if (unknown.length > 0) {
+      throw new Error(
+        `Pipeline step "${step.key}" depends on unknown steps: ${unknown.join(', ')}.`
+      )
+    }
+  })
+
+  const ordered: PipelineStep[] = []
+  const visiting = new Set<string>()
+  const visit = (step: PipelineStep) => {
+    if (ordered.includes(step)) return
+    if (visiting.has(step.key)) {
+      throw new Error(`Pipeline steps depend on each other in a cycle through "${step.key}".`)
+    }
+    visiting.add(step.key)
+    step.dependsOn.forEach(key => visit(steps.get(key) as PipelineStep))
+    visiting.delete(step.key)
+    ordered.push(step)
+  }
+  pipeline.steps.forEach(visit)
+  return ordered
+}
+
+/**
+ * Decides per step what resuming a run has to do, given the task ids recorded for the run and the
+ * current status of the workspace tasks. Steps that failed or were cancelled, and `fromStep` with
+ * everything downstream of it, are reset in place so their dependants stay wired up; only steps
+ * without a live task get a new one.
+ */
+export function planPipelineRun(
+  steps: PipelineStep[],
+  state: PipelineState | undefined,
+  taskStatuses: Map<number, string>,
+  fromStep?: string
+): StepPlan[] {
+  if (fromStep && !steps.some(step => step.key === fromStep)) {
+    throw new Error(
+      `Unknown pipeline step "${fromStep}". Steps: ${steps.map(step => step.key).join(', ')}.`
+    )
+  }
+
+  const rerun = new Set<string>(fromStep ? [fromStep] : [])
+  steps.forEach(step => {
+    if (step.dependsOn.some(key => rerun.has(key))) rerun.add(step.key)
+  })
+
+  const plans: StepPlan[] = []
+  steps.forEach(step => {
+    const taskId = state?.tasks[step.key]
+    const status = taskId === undefined ? undefined : taskStatuses.get(taskId)
+    const newDependency = step.dependsOn.some(key =>
+      plans.some(plan => plan.step.key === key && ['create', 'replace'].includes(plan.action))
+    )
+
+    if (taskId === undefined || status === undefined) {
+      plans.push({ step, action: 'create' })
+    } else if (newDependency) {
+      plans.push({ step, action: 'replace', taskId, status })
+    } else if (rerun.has(step.key) || RERUN_STATUSES.includes(status)) {
+      plans.push({ step, action: 'reset', taskId, status })
+    } else {
+      plans.push({ step, action: 'keep', taskId, status })
+    }
+  })
+  return plans
+}
+
+// Task text for one step, derived from its definition
+export function pipelineTask(step: PipelineStep): {
+  description: string
+  body: string
+  input: string
+  expectedOutput: string
+} {
+  const inputs = step.inputs.map(input => `'${input}'`).join(', ')
+  const outputs = step.outputs.map(output => `'${output}'`).join(', ')
+  return {
+    description: `${step.description} Use the ${step.capability} capability. No other tools are required.`,
+    body: `${step.description} You MUST use the capability: \`${step.capability}\`. No other tools are required to complete this task.${inputs ? ` Required input from the workspace: ${inputs}.` : ''} The capability writes ${outputs} to the workspace for the next steps.`,
+    input: inputs ? `${inputs} from the workspace` : '{}',
+    expectedOutput: `Files named ${outputs} in the workspace`
+  }
+}
@@ -0,0 +1,279 @@
+import { createHash } from 'crypto'
+import { z } from 'zod'
+import v1_0_0 from './regulations/1.0.0.json'
+import v1_1_0 from './regulations/1.1.0.json'
+import v1_2_0 from './regulations/1.2.0.json'
+import { EAAGuidelines, EAARequirement } from './score_logic'
+import { ComplianceData } from './compliance'
+import { requirementTimelineSchema, transitionSchema } from './timeline'
+
+// Published versions of the regulation data. A new version gets its own file in regulations/
+// and an entry here; released files are never edited.
+const DATASET_FILES: unknown[] = [v1_0_0, v1_1_0, v1_2_0]
+
+const datasetSchema = z.object({
+  directive: z.string(),
+  dataset: z.object({
+    version: z.string().regex(/^\d+\.\d+\.\d+$/, 'must be a semantic version'),
+    changes: z.string()
+  }),
+  transitions: z.record(transitionSchema).optional(),
+  requirements: z
+    .array(
+      z
+        .object({
+          requirement_id: z.string(),
+          description: z.string(),
+          category: z.string(),
+          criticality: z.enum(['HIGH', 'MEDIUM', 'LOW']),
+          legal_reference: z.string(),
+          status: z.literal('pending'),
+          exemptible: z.boolean(),
+          applies_to: z
+            .object({ types: z.array(z.string()), channels: z.array(z.string()).optional() })
+            .optional(),
+          timeline: requirementTimelineSchema.optional()
+        })
+        .strict()
+    )
+    .min(1)
+})
+
+export type DatasetInfo = { version: string; content_hash: string }
+
+type RequirementChange = { requirement_id: string; before: string; after: string }
+
+export type RegulationDiff = {
+  from: string
+  to: string
+  added: string[]
+  removed: string[]
+  reworded: RequirementChange[]
+  criticality: RequirementChange[]
+  // Any other field that changed (legal reference, category, exemptible, applies_to, timeline)
+  other: Array<{ requirement_id: string; fields: string[] }>
+}
+
+export type AffectedResult = {
+  label: string
+  version: string | null
+  // Requirements whose status may differ when the result is produced again
+  requirement_ids: string[]
+  reason: 'outdated_dataset' | 'unknown_dataset' | 'modified_dataset' | 'unversioned'
+}
+
+let cachedDatasets: EAAGuidelines[] | undefined
+
+/**
+ * Parses every published dataset, stamps it with its content hash and checks that versions are
+ * unique, so a broken dataset fails at startup. Sorted from oldest to newest.
+ */
+function loadDatasets(): EAAGuidelines[] {
+  if (cachedDatasets) return cachedDatasets
+
+  const datasets = DATASET_FILES.map((file, index) => {
+    const parsed = datasetSchema.safeParse(file)
+    if (!parsed.success) {
+      throw new Error(`Invalid regulation dataset #${index + 1}: ${parsed.error.message}`)
+    }
+    const { directive, dataset, transitions, requirements } = parsed.data
+    const unknownTransitions = requirements.flatMap(requirement =>
+      (requirement.timeline?.transitions || [])
+        .filter(id => !transitions?.[id])
+        .map(id => `${requirement.requirement_id} refers to unknown transition ${id}`)
+    )
+    if (unknownTransitions.length > 0) {
+      throw new Error(
+        `Invalid regulation dataset ${dataset.version}: ${unknownTransitions.join('; ')}`
+      )
+    }
+    const guidelines: EAAGuidelines = {
+      directive,
+      dataset: {
+        version: dataset.version,
+        content_hash: contentHash(directive, requirements, transitions)
+      },
+      ...(transitions ? { transitions } : {}),
+      requirements
+    }
+    return guidelines
+  }).sort((a, b) => compareVersions(a.dataset?.version || '', b.dataset?.version || ''))
+
+  const versions = datasets.map(dataset => dataset.dataset?.version)
+  const duplicate = versions.find((version, index) => versions.indexOf(version) !== index)
+  if (duplicate) {
+    throw new Error(`Regulation dataset version ${duplicate} is published twice.`)
+  }
+
+  cachedDatasets = datasets
+  return datasets
+}
+
+export function regulationVersions(): [string, ...string[]] {
+  return loadDatasets().map(dataset => dataset.dataset?.version || '') as [string, ...string[]]
+}
+
+// A copy of one dataset version, or of the latest one
+export function loadRegulations(version?: string): EAAGuidelines {
+  const datasets = loadDatasets()
+  const dataset = version
+    ? datasets.find(candidate => candidate.dataset?.version === version)
+    : datasets[datasets.length - 1]
+  if (!dataset) {
+    throw new Error(
+      `Unknown regulation dataset version "${version}". Available versions: ${regulationVersions().join(', ')}.`
+    )
+  }
+  return JSON.parse(JSON.stringify(dataset))
+}
+
+export function diffRegulations(from: EAAGuidelines, to: EAAGuidelines): RegulationDiff {
+  const before = new Map(from.requirements.map(req => [req.requirement_id, req]))
+  const after = new Map(to.requirements.map(req => [req.requirement_id, req]))
+  const diff: RegulationDiff = {
+    from: from.dataset?.version || 'unversioned',
+    to: to.dataset?.version || 'unversioned',
+    added: to.requirements
+      .filter(req => !before.has(req.requirement_id))
+      .map(req => req.requirement_id),
+    removed: from.requirements
+      .filter(req => !after.has(req.requirement_id))
+      .map(req => req.requirement_id),
+    reworded: [],
+    criticality: [],
+    other: []
+  }
+
+  after.forEach((requirement, requirementId) => {
+    const previous = before.get(requirementId)
+    if (!previous) return
+
+    if (previous.description !== requirement.description) {
+      diff.reworded.push({
+        requirement_id: requirementId,
+        before: previous.description,
+        after: requirement.description
+      })
+    }
+    if (previous.criticality !== requirement.criticality) {
+      diff.criticality.push({
+        requirement_id: requirementId,
+        before: previous.criticality,
+        after: requirement.criticality
+      })
+    }
+    const fields = (
+      ['category', 'legal_reference', 'exemptible', 'applies_to', 'timeline'] as Array<
+        keyof EAARequirement
+      >
+    ).filter(field => canonicalJson(previous[field]) !== canonicalJson(requirement[field]))
+    if (fields.length > 0) {
+      diff.other.push({ requirement_id: requirementId, fields })
+    }
+  })
+  return diff
+}
+
+/**
+ * Checks compliance results against a dataset version (the latest by default). A result is
+ * affected when it was produced against another version, or against a copy of the same version
+ * whose content no longer matches, and the difference touches at least one requirement.
+ */
+export function findAffectedResults(
+  results: Array<{ label: string; compliance: ComplianceData }>,
+  version?: string
+): AffectedResult[] {
+  const target = loadRegulations(version)
+  const affected: AffectedResult[] = []
+
+  results.forEach(({ label, compliance }) => {
+    const requirements = Array.isArray(compliance.mappedResults)
+      ? compliance.mappedResults
+      : compliance.mappedResults.requirements
+    const used = Array.isArray(compliance.mappedResults)
+      ? undefined
+      : compliance.mappedResults.dataset
+    const changedIds = (from: EAAGuidelines) => {
+      const diff = diffRegulations(from, target)
+      return [
+        ...diff.added,
+        ...diff.removed,
+        ...diff.reworded.map(change => change.requirement_id),
+        ...diff.criticality.map(change => change.requirement_id),
+        ...diff.other.map(change => change.requirement_id)
+      ].filter((id, index, ids) => ids.indexOf(id) === index)
+    }
+
+    if (!used) {
+      const requirementIds = requirements.map(req => req.requirement_id)
+      affected.push({
+        label,
+        version: null,
+        requirement_ids: requirementIds,
+        reason: 'unversioned'
+      })
+      return
+    }
+    if (!regulationVersions().includes(used.version)) {
+      affected.push({
+        label,
+        version: used.version,
+        requirement_ids: target.requirements.map(req => req.requirement_id),
+        reason: 'unknown_dataset'
+      })
+      return
+    }
+
+    const published = loadRegulations(used.version)
+    if (published.dataset?.content_hash !== used.content_hash) {
+      affected.push({
+        label,
+        version: used.version,
+        requirement_ids: changedIds({
+          ...published,
+          requirements: requirements as EAARequirement[]
+        }),
+        reason: 'modified_dataset'
+      })
+      return
+    }
+
+    const requirementIds = changedIds(published)
+    if (requirementIds.length > 0) {
+      affected.push({
+        label,
+        version: used.version,
+        requirement_ids: requirementIds,
+        reason: 'outdated_dataset'
+      })
+    }
+  })
+  return affected
+}
+
+// Transitions only count once a dataset has them, so the hashes of older versions stay the same
+function contentHash(directive: string, requirements: unknown[], transitions?: unknown): string {
+  const content = transitions
+    ? { directive, requirements, transitions }
+    : { directive, requirements }
+  return `sha256:${createHash('sha256').update(canonicalJson(content)).digest('hex')}`
+}
+
+// JSON with object keys sorted, so the hash does not depend on key order in the file
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map(
+        key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`
+      )
+      .join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+function compareVersions(a: string, b: string): number {
+  const [partsA, partsB] = [a.split('.').map(Number), b.split('.').map(Number)]
+  return partsA[0] - partsB[0] || partsA[1] - partsB[1] || partsA[2] - partsB[2]
+}
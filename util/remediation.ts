@@ -0,0 +1,401 @@
+import {
+  ComplianceData,
+  complianceLocale,
+  complianceRequirements,
+  FAILING_STATUSES,
+  failingElementsOf
+} from './compliance'
+import { DEFAULT_LOCALE, Locale, translator, Translator } from './i18n'
+import { csvCell, stripMarkdownLinks } from './report_renderer'
+import { obligationDeadline } from './timeline'
+
+// A work plan from compliance.json: failing elements grouped into one ticket per rule, ranked
+// by how much fixing it is worth, for import into GitHub or Jira.
+
+export const REMEDIATION_FORMATS = ['json', 'github', 'jira'] as const
+export type RemediationFormat = (typeof REMEDIATION_FORMATS)[number]
+
+export const REMEDIATION_FILE_NAMES: Record<RemediationFormat, string> = {
+  json: 'remediation-backlog.json',
+  github: 'remediation-github-issues.json',
+  jira: 'remediation-jira.csv'
+}
+
+// The directive applies from this date; requirements without a deadline or timeline use it
+export const EAA_APPLICATION_DATE = '2025-06-28'
+
+export type Effort = 'low' | 'medium' | 'high'
+
+const EFFORT_POINTS: Record<Effort, number> = { low: 1, medium: 3, high: 8 }
+
+// Rough effort per rule: an attribute or a text is cheap, anything touching focus handling,
+// widget semantics or media is not. Rules not listed count as medium.
+const RULE_EFFORT: Record<string, Effort> = {
+  'area-alt': 'low',
+  'aria-command-name': 'low',
+  'aria-input-field-name': 'low',
+  'aria-meter-name': 'low',
+  'aria-progressbar-name': 'low',
+  'aria-toggle-field-name': 'low',
+  'aria-tooltip-name': 'low',
+  'button-name': 'low',
+  'document-title': 'low',
+  'duplicate-id-aria': 'low',
+  'empty-heading': 'low',
+  'frame-title': 'low',
+  'html-has-lang': 'low',
+  'html-lang-valid': 'low',
+  'image-alt': 'low',
+  'image-redundant-alt': 'low',
+  'input-button-name': 'low',
+  'input-image-alt': 'low',
+  label: 'low',
+  'link-name': 'low',
+  'meta-refresh': 'low',
+  'meta-viewport': 'low',
+  'object-alt': 'low',
+  'role-img-alt': 'low',
+  'select-name': 'low',
+  'svg-img-alt': 'low',
+  tabindex: 'low',
+  'valid-lang': 'low',
+  'aria-required-children': 'high',
+  'aria-required-parent': 'high',
+  'audio-caption': 'high',
+  'custom-controls-roles': 'high',
+  'focus-traps': 'high',
+  'focusable-controls': 'high',
+  'interactive-element-affordance': 'high',
+  'logical-tab-order': 'high',
+  'managed-focus': 'high',
+  'nested-interactive': 'high',
+  'scrollable-region-focusable': 'high',
+  'video-caption': 'high',
+  'visual-order-follows-dom': 'high'
+}
+
+const CRITICALITY_WEIGHT: Record<string, number> = { HIGH: 10, MEDIUM: 5, LOW: 2 }
+const CRITICALITY_ORDER = ['HIGH', 'MEDIUM', 'LOW']
+
+// Elements listed in a ticket; the rest are only counted
+const MAX_LISTED_ELEMENTS = 20
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Past the deadline, within 90 days, within a year, later
+const URGENCY = { overdue: 2, quarter: 1.5, year: 1.2, later: 1 }
+
+export type TicketPriority = 'P1' | 'P2' | 'P3' | 'P4'
+
+const JIRA_PRIORITY: Record<TicketPriority, string> = {
+  P1: 'Highest',
+  P2: 'High',
+  P3: 'Medium',
+  P4: 'Low'
+}
+
+export type RemediationTicket = {
+  // Stable across runs, so a re-import can be matched against tickets already created
+  id: string
+  rank: number
+  priority: TicketPriority
+  title: string
+  audit_id: string
+  issue: string
+  suggestion: string
+  requirement_ids: string[]
+  legal_references: string[]
+  criticality: string
+  effort: Effort
+  story_points: number
+  deadline: string
+  pages: string[]
+  elements: Array<{ fingerprint: string; page: string; selector: string; label: string }>
+  acceptance_criteria: string[]
+  // What the rank is based on
+  score: number
+  factors: { criticality: number; reach: number; urgency: number; effort: number }
+}
+
+export type RemediationBacklog = {
+  locale: Locale
+  assessment_date: string
+  tickets: RemediationTicket[]
+}
+
+export type RemediationOptions = {
+  // Deadline per requirement_id (ISO date); defaults to when the requirement's obligation starts
+  // or its transitional period ends, else EAA_APPLICATION_DATE
+  deadlines?: Record<string, string>
+  // The date urgency is measured from
+  assessmentDate?: Date
+  locale?: Locale
+}
+
+/**
+ * Ranks tickets by criticality × reach × urgency ÷ effort, where reach grows with the log of the
+ * affected elements and pages and urgency with how close (or how far past) the deadline is.
+ * Elements that only fail exempted or out-of-scope requirements are left out.
+ */
+export function buildRemediationBacklog(
+  compliance: ComplianceData,
+  options: RemediationOptions = {}
+): RemediationBacklog {
+  const t = translator(options.locale || complianceLocale(compliance) || DEFAULT_LOCALE)
+  const assessmentDate = options.assessmentDate || new Date()
+  const requirements = new Map(
+    complianceRequirements(compliance)
+      .filter(req => FAILING_STATUSES.includes(req.status))
+      .map(req => [req.requirement_id, req])
+  )
+
+  const groups = new Map<string, ReturnType<typeof failingElementsOf>>()
+  failingElementsOf(compliance)
+    .filter(element => requirements.has(element.requirement_id))
+    .forEach(element => {
+      const group = groups.get(element.audit_id) || []
+      group.push(element)
+      groups.set(element.audit_id, group)
+    })
+
+  const tickets = Array.from(groups.entries()).map(([auditId, group]): RemediationTicket => {
+    const ticketRequirements = unique(group.map(element => element.requirement_id))
+      .map(id => requirements.get(id))
+      .filter((req): req is NonNullable<typeof req> => Boolean(req))
+      .sort(
+        (a, b) =>
+          CRITICALITY_ORDER.indexOf(a.criticality) - CRITICALITY_ORDER.indexOf(b.criticality) ||
+          a.requirement_id.localeCompare(b.requirement_id)
+      )
+    const elements = unique(group.map(element => element.fingerprint)).map(fingerprint => {
+      const element = group.find(known => known.fingerprint === fingerprint)!
+      return {
+        fingerprint,
+        page: element.url || '',
+        selector: element.selector,
+        label: element.node_label || element.snippet
+      }
+    })
+    const pages = unique(elements.map(element => element.page).filter(Boolean))
+    const criticality = ticketRequirements[0].criticality
+    const deadline = ticketRequirements
+      .map(
+        req =>
+          options.deadlines?.[req.requirement_id] ||
+          (req.obligation ? obligationDeadline(req.obligation) : EAA_APPLICATION_DATE)
+      )
+      .sort()[0]
+    const effort = RULE_EFFORT[auditId] || 'medium'
+
+    const factors = {
+      criticality: CRITICALITY_WEIGHT[criticality] || 1,
+      reach: round(1 + Math.log2(elements.length) + Math.log2(Math.max(pages.length, 1))),
+      urgency: urgency(deadline, assessmentDate),
+      effort: EFFORT_POINTS[effort]
+    }
+    const first = group[0]
+    return {
+      id: `eaa-${auditId}`,
+      rank: 0,
+      priority: priority(criticality, factors.urgency),
+      title: ticketTitle(t, first.title || auditId, elements.length, pages.length),
+      audit_id: auditId,
+      issue: first.title || auditId,
+      suggestion: stripMarkdownLinks(first.description),
+      requirement_ids: ticketRequirements.map(req => req.requirement_id),
+      legal_references: unique(
+        ticketRequirements.flatMap(req =>
+          [req.legal_reference, req.national_reference].filter((ref): ref is string => !!ref)
+        )
+      ),
+      criticality,
+      effort,
+      story_points: EFFORT_POINTS[effort],
+      deadline,
+      pages,
+      elements,
+      acceptance_criteria: acceptanceCriteria(t, auditId, elements),
+      score: round((factors.criticality * factors.reach * factors.urgency) / factors.effort),
+      factors
+    }
+  })
+
+  tickets
+    .sort((a, b) => b.score - a.score || a.audit_id.localeCompare(b.audit_id))
+    .forEach((ticket, index) => {
+      ticket.rank = index + 1
+    })
+
+  return {
+    locale: t.locale,
+    assessment_date: assessmentDate.toISOString().slice(0, 10),
+    tickets
+  }
+}
+
+export function renderRemediationBacklog(
+  backlog: RemediationBacklog,
+  format: RemediationFormat
+): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(backlog, null, 2)
+    case 'github':
+      return JSON.stringify(toGithubIssues(backlog), null, 2)
+    case 'jira':
+      return toJiraCsv(backlog)
+  }
+}
+
+// Bodies for the GitHub REST API's create-issue call (POST /repos/{owner}/{repo}/issues)
+function toGithubIssues(backlog: RemediationBacklog) {
+  const t = translator(backlog.locale)
+  return backlog.tickets.map(ticket => ({
+    title: ticket.title,
+    body: ticketBody(t, ticket, 'markdown'),
+    labels: ticketLabels(ticket)
+  }))
+}
+
+// Jira's CSV importer takes a repeated Labels column for several labels
+function toJiraCsv(backlog: RemediationBacklog): string {
+  const t = translator(backlog.locale)
+  const labelColumns = Math.max(1, ...backlog.tickets.map(ticket => ticketLabels(ticket).length))
+  const header = [
+    'Summary',
+    'Issue Type',
+    'Priority',
+    'Due Date',
+    'Story Points',
+    ...Array<string>(labelColumns).fill('Labels'),
+    'Description'
+  ]
+  const rows = backlog.tickets.map(ticket => {
+    const labels = ticketLabels(ticket)
+    return [
+      ticket.title,
+      'Task',
+      JIRA_PRIORITY[ticket.priority],
+      ticket.deadline,
+      String(ticket.story_points),
+      ...Array.from({ length: labelColumns }, (_, index) => labels[index] || ''),
+      ticketBody(t, ticket, 'jira')
+    ]
+  })
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+function ticketLabels(ticket: RemediationTicket): string[] {
+  return [
+    'accessibility',
+    'eaa',
+    `priority:${ticket.priority}`,
+    `effort:${ticket.effort}`,
+    ...ticket.requirement_ids.map(id => `eaa:${id}`)
+  ]
+}
+
+// The ticket description in Markdown (GitHub) or Jira wiki markup
+function ticketBody(t: Translator, ticket: RemediationTicket, markup: 'markdown' | 'jira'): string {
+  const bold = (text: string) => (markup === 'jira' ? `*${text}*` : `**${text}**`)
+  const code = (text: string) => (markup === 'jira' ? `{{${text}}}` : `\`${text}\``)
+  const heading = (text: string) => (markup === 'jira' ? `h4. ${text}` : `#### ${text}`)
+  const item = (text: string) => (markup === 'jira' ? `* ${text}` : `- ${text}`)
+  const deadline =
+    ticket.factors.urgency >= URGENCY.overdue
+      ? t.text('backlog.overdue', { date: ticket.deadline })
+      : ticket.deadline
+
+  const listed = ticket.elements.slice(0, MAX_LISTED_ELEMENTS)
+  return [
+    ticket.suggestion,
+    '',
+    `${bold(`${t.text('report.requirements')}:`)} ${ticket.requirement_ids.join(', ')} (${ticket.legal_references.join('; ')})`,
+    [
+      `${bold(`${t.text('backlog.priority')}:`)} ${ticket.priority} (#${ticket.rank})`,
+      `${bold(`${t.text('report.criticality')}:`)} ${t.criticality(ticket.criticality)}`,
+      `${bold(`${t.text('backlog.effort')}:`)} ${t.text(`backlog.effort_${ticket.effort}`)}`,
+      `${bold(`${t.text('backlog.deadline')}:`)} ${deadline}`
+    ].join(' · '),
+    '',
+    heading(t.text('backlog.affected_elements')),
+    '',
+    ...listed.map(element =>
+      item(
+        `${element.selector ? code(element.selector) : element.label || ticket.audit_id}${element.page ? t.text('narrative.on_page', { page: element.page }) : ''}`
+      )
+    ),
+    ...(ticket.elements.length > listed.length
+      ? [item(t.text('backlog.more_elements', { count: ticket.elements.length - listed.length }))]
+      : []),
+    '',
+    heading(t.text('narrative.acceptance_criteria')),
+    '',
+    // Criteria are stored as Markdown
+    ...ticket.acceptance_criteria.map(criterion =>
+      item(markup === 'jira' ? criterion.replace(/`([^`]+)`/g, '{{$1}}') : criterion)
+    ),
+    '',
+    `${t.text('report.issue')}: ${ticket.elements.map(element => code(element.fingerprint)).join(', ')}`
+  ].join('\n')
+}
+
+function ticketTitle(t: Translator, issue: string, elements: number, pages: number): string {
+  const count = (key: 'elements' | 'pages', value: number) =>
+    t.text(value === 1 ? `backlog.${key}_one` : `backlog.${key}_other`, { count: value })
+  return pages > 0
+    ? t.text('backlog.title', {
+        issue,
+        elements: count('elements', elements),
+        pages: count('pages', pages)
+      })
+    : t.text('backlog.title_no_pages', { issue, elements: count('elements', elements) })
+}
+
+function acceptanceCriteria(
+  t: Translator,
+  auditId: string,
+  elements: RemediationTicket['elements']
+): string[] {
+  const listed = elements.slice(0, MAX_LISTED_ELEMENTS)
+  return [
+    ...listed.map(element =>
+      t.text('narrative.criterion', {
+        audit_id: auditId,
+        target: element.selector ? `\`${element.selector}\`` : t.text('narrative.this_issue'),
+        on_page: element.page ? t.text('narrative.on_page', { page: element.page }) : ''
+      })
+    ),
+    ...(elements.length > listed.length
+      ? [
+          t.text('backlog.criterion_remaining', {
+            audit_id: auditId,
+            count: elements.length - listed.length
+          })
+        ]
+      : [])
+  ]
+}
+
+function urgency(deadline: string, assessmentDate: Date): number {
+  const days = (new Date(deadline).getTime() - assessmentDate.getTime()) / DAY_MS
+  if (days < 0) return URGENCY.overdue
+  if (days <= 90) return URGENCY.quarter
+  if (days <= 365) return URGENCY.year
+  return URGENCY.later
+}
+
+function priority(criticality: string, urgencyFactor: number): TicketPriority {
+  const pressing = urgencyFactor >= URGENCY.quarter
+  if (criticality === 'HIGH') return pressing ? 'P1' : 'P2'
+  if (criticality === 'MEDIUM') return pressing ? 'P2' : 'P3'
+  return pressing ? 'P3' : 'P4'
+}
+
+function unique<T>(values: T[]): T[] {
+  return values.filter((value, index) => values.indexOf(value) === index)
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
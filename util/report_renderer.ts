@@ -0,0 +1,699 @@
+import { z } from 'zod'
+import {
+  ComplianceData,
+  complianceJurisdiction,
+  ComplianceRequirement,
+  complianceLocale,
+  complianceRequirements,
+  failingElementsOf
+} from './compliance'
+import { AppliedJurisdiction } from './jurisdiction'
+import { ApplicabilityProfile } from './applicability'
+import { DEFAULT_LOCALE, Locale, TextKey, translator, Translator } from './i18n'
+import { obligationDeadline } from './timeline'
+
+// Deterministic compliance report: the same compliance.json and locale always render to the
+// same output. Statuses and criticalities stay codes in the data (JSON, CSV) and are only
+// translated where the report is read (Markdown, HTML).
+
+export const REPORT_FORMATS = ['markdown', 'html', 'csv', 'json'] as const
+export type ReportFormat = (typeof REPORT_FORMATS)[number]
+
+export const REPORT_FILE_EXTENSIONS: Record<ReportFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  csv: 'csv',
+  json: 'json'
+}
+
+// The parts of score.json the report shows
+export const reportScoreSchema = z
+  .object({
+    finalScore: z.number(),
+    profile: z.string().optional(),
+    coverage: z
+      .object({ assessed: z.number(), total: z.number(), confidence: z.string() })
+      .passthrough()
+      .optional()
+  })
+  .passthrough()
+
+type ReportRequirement = Pick<
+  ComplianceRequirement,
+  | 'requirement_id'
+  | 'description'
+  | 'category'
+  | 'criticality'
+  | 'legal_reference'
+  | 'national_reference'
+  | 'status'
+>
+
+export type ActionableInsight = {
+  // Issue fingerprint, the same in every run while the element keeps failing
+  fingerprint: string
+  requirement_id: string
+  criticality: string
+  status: string
+  page: string
+  audit_id: string
+  issue: string
+  failing_element: string
+  selector: string
+  explanation: string
+  suggestion: string
+}
+
+// A requirement that is not enforceable yet, and the date it has to be met by
+export type UpcomingDeadline = {
+  requirement_id: string
+  criticality: string
+  status: string
+  obligation: 'in_transition' | 'not_yet_applicable'
+  deadline: string
+  legal_reference: string
+}
+
+export type WaivedFinding = {
+  fingerprint: string
+  waiver_id: string
+  audit_id: string
+  issue: string
+  page: string
+  selector: string
+  requirement_ids: string[]
+  reason: string
+  approved_by: string
+  expires_at: string
+}
+
+export type ComplianceReport = {
+  locale: Locale
+  directive: string
+  jurisdiction?: AppliedJurisdiction
+  applicability?: ApplicabilityProfile
+  // The date obligations and waivers were assessed against
+  assessment_date?: string
+  score?: z.infer<typeof reportScoreSchema>
+  summary: Record<
+    | 'non_compliant'
+    | 'partially_compliant'
+    | 'needs_review'
+    | 'compliant'
+    | 'exempted'
+    | 'pending'
+    | 'not_applicable',
+    ReportRequirement[]
+  >
+  requirements: ReportRequirement[]
+  upcoming_deadlines: UpcomingDeadline[]
+  actionable_insights: ActionableInsight[]
+  // Accepted findings, kept out of the failing elements but never out of the report
+  waived_findings: WaivedFinding[]
+  // Expired waivers and waivers that match nothing
+  waiver_warnings: string[]
+  narrative?: string
+}
+
+const SUMMARY_STATUSES: Array<keyof ComplianceReport['summary']> = [
+  'non_compliant',
+  'partially_compliant',
+  'needs_review',
+  'compliant',
+  'exempted',
+  'pending',
+  'not_applicable'
+]
+
+const CRITICALITY_ORDER = ['HIGH', 'MEDIUM', 'LOW']
+
+const DEADLINE_COLUMNS: TextKey[] = [
+  'report.requirement',
+  'report.criticality',
+  'report.status',
+  'report.obligation',
+  'report.deadline',
+  'report.legal_reference'
+]
+
+const WAIVED_FINDING_COLUMNS: TextKey[] = [
+  'report.issue',
+  'report.page',
+  'report.selector',
+  'report.waiver',
+  'report.reason',
+  'report.approved_by',
+  'report.expires'
+]
+
+// `locale` defaults to the language the regulations were fetched in
+export function buildComplianceReport(
+  compliance: ComplianceData,
+  score?: z.infer<typeof reportScoreSchema>,
+  locale: Locale = complianceLocale(compliance) || DEFAULT_LOCALE
+): ComplianceReport {
+  const t = translator(locale)
+  const requirements: ReportRequirement[] = complianceRequirements(compliance)
+    .map(req => ({
+      requirement_id: req.requirement_id,
+      description: t.requirement(req),
+      category: t.category(req.category),
+      criticality: req.criticality,
+      legal_reference: req.legal_reference,
+      national_reference: req.national_reference,
+      status: req.status
+    }))
+    .sort(
+      (a, b) =>
+        CRITICALITY_ORDER.indexOf(a.criticality) - CRITICALITY_ORDER.indexOf(b.criticality) ||
+        a.requirement_id.localeCompare(b.requirement_id)
+    )
+
+  const summary = Object.fromEntries(
+    SUMMARY_STATUSES.map(status => [status, requirements.filter(req => req.status === status)])
+  ) as ComplianceReport['summary']
+
+  const upcomingDeadlines = complianceRequirements(compliance)
+    .flatMap(req => {
+      const obligation = req.obligation
+      if (!obligation || obligation.status === 'in_force') return []
+      return [
+        {
+          requirement_id: req.requirement_id,
+          criticality: req.criticality,
+          status: req.status,
+          obligation: obligation.status,
+          deadline: obligationDeadline(obligation),
+          legal_reference: obligation.legal_reference || req.legal_reference
+        }
+      ]
+    })
+    .sort(
+      (a, b) =>
+        a.deadline.localeCompare(b.deadline) || a.requirement_id.localeCompare(b.requirement_id)
+    )
+
+  const byId = new Map(requirements.map(req => [req.requirement_id, req]))
+  const actionableInsights = failingElementsOf(compliance)
+    .map(element => {
+      const requirement = byId.get(element.requirement_id)
+      return {
+        fingerprint: element.fingerprint,
+        requirement_id: element.requirement_id,
+        criticality: requirement?.criticality || '',
+        status: requirement?.status || '',
+        page: element.url || '',
+        audit_id: element.audit_id,
+        issue: element.title || t.text('report.issue_not_specified'),
+        failing_element: element.node_label || element.snippet || t.text('report.no_element'),
+        selector: element.selector,
+        explanation: element.explanation,
+        suggestion: stripMarkdownLinks(element.description) || t.text('report.default_suggestion')
+      }
+    })
+    .sort(
+      (a, b) =>
+        CRITICALITY_ORDER.indexOf(a.criticality) - CRITICALITY_ORDER.indexOf(b.criticality) ||
+        a.requirement_id.localeCompare(b.requirement_id) ||
+        a.page.localeCompare(b.page) ||
+        a.audit_id.localeCompare(b.audit_id) ||
+        a.selector.localeCompare(b.selector)
+    )
+
+  return {
+    locale,
+    directive: Array.isArray(compliance.mappedResults)
+      ? 'EU 2019/882'
+      : compliance.mappedResults.directive || 'EU 2019/882',
+    jurisdiction: complianceJurisdiction(compliance),
+    applicability: Array.isArray(compliance.mappedResults)
+      ? undefined
+      : compliance.mappedResults.applicability,
+    assessment_date: Array.isArray(compliance.mappedResults)
+      ? undefined
+      : compliance.mappedResults.timeline?.assessment_date,
+    score,
+    summary,
+    requirements,
+    upcoming_deadlines: upcomingDeadlines,
+    actionable_insights: actionableInsights,
+    waived_findings: (compliance.waivers?.waived || []).map(issue => ({
+      fingerprint: issue.fingerprint,
+      waiver_id: issue.waiver.id,
+      audit_id: issue.audit_id,
+      issue: issue.title || issue.audit_id,
+      page: issue.url || '',
+      selector: issue.selector,
+      requirement_ids: issue.requirement_ids,
+      reason: issue.waiver.reason,
+      approved_by: issue.waiver.approved_by,
+      expires_at: issue.waiver.expires_at
+    })),
+    waiver_warnings: [
+      ...(compliance.waivers?.expired || []).map(waiver =>
+        t.text(
+          waiver.issues.length > 0 ? 'report.waiver_expired_findings' : 'report.waiver_expired',
+          {
+            id: waiver.id,
+            audit_id: waiver.audit_id,
+            date: waiver.expires_at,
+            count: waiver.issues.length
+          }
+        )
+      ),
+      ...(compliance.waivers?.unmatched || []).map(waiver =>
+        t.text('report.waiver_unmatched', { id: waiver.id, audit_id: waiver.audit_id })
+      )
+    ]
+  }
+}
+
+export function renderReport(report: ComplianceReport, format: ReportFormat): string {
+  switch (format) {
+    case 'markdown':
+      return renderMarkdown(report)
+    case 'html':
+      return renderHtml(report)
+    case 'csv':
+      return renderCsv(report)
+    case 'json':
+      return JSON.stringify(report, null, 2)
+  }
+}
+
+function renderMarkdown(report: ComplianceReport): string {
+  const t = translator(report.locale)
+  const cell = (value: string) => value.replace(/\|/g, '\\|').replace(/\n+/g, ' ')
+  const row = (values: string[]) => `| ${values.join(' | ')} |`
+  const header = (keys: TextKey[]) => [
+    row(keys.map(key => t.text(key))),
+    row(keys.map(() => '---'))
+  ]
+  const lines = [`# ${t.text('report.title', { directive: report.directive })}`, '']
+
+  if (report.jurisdiction) {
+    lines.push(
+      `**${t.text('report.assessed_against')}:** ${jurisdictionDetails(t, report.jurisdiction)}`,
+      ''
+    )
+  }
+  if (report.applicability) {
+    lines.push(`**${t.text('report.scope')}:** ${scopeDetails(report.applicability)}`, '')
+  }
+  if (report.assessment_date) {
+    lines.push(`**${t.text('report.assessment_date')}:** ${report.assessment_date}`, '')
+  }
+  if (report.score) {
+    lines.push(
+      `**${t.text('report.score')}:** ${report.score.finalScore}/100${scoreDetails(t, report)}`,
+      ''
+    )
+  }
+
+  lines.push(
+    `## ${t.text('report.summary')}`,
+    '',
+    ...header(['report.status', 'report.requirements'])
+  )
+  SUMMARY_STATUSES.forEach(status => {
+    const ids = report.summary[status].map(req => req.requirement_id).join(', ')
+    lines.push(row([t.status(status), ids || '–']))
+  })
+
+  lines.push(
+    '',
+    `## ${t.text('report.requirements')}`,
+    '',
+    ...header([
+      'report.requirement',
+      'report.category',
+      'report.criticality',
+      'report.status',
+      'report.legal_reference'
+    ])
+  )
+  report.requirements.forEach(req => {
+    lines.push(
+      row([
+        req.requirement_id,
+        cell(req.category),
+        t.criticality(req.criticality),
+        t.status(req.status),
+        cell(legalReference(req))
+      ])
+    )
+  })
+
+  if (report.upcoming_deadlines.length > 0) {
+    lines.push('', `## ${t.text('report.upcoming_deadlines')}`, '', ...header(DEADLINE_COLUMNS))
+    report.upcoming_deadlines.forEach(deadline => {
+      lines.push(
+        row([
+          deadline.requirement_id,
+          t.criticality(deadline.criticality),
+          t.status(deadline.status),
+          t.text(`report.${deadline.obligation}`),
+          deadline.deadline,
+          cell(deadline.legal_reference)
+        ])
+      )
+    })
+  }
+
+  lines.push('', `## ${t.text('report.failing_elements')}`, '')
+  if (report.actionable_insights.length === 0) {
+    lines.push(t.text('report.no_failing_elements'))
+  }
+  report.actionable_insights.forEach((insight, index) => {
+    const item = (key: TextKey, value: string) => `   - ${t.text(key)}: ${value}`
+    lines.push(
+      `${index + 1}. **${insight.issue}** (${insight.requirement_id}, ${t.criticality(insight.criticality)})`,
+      ...(insight.page ? [item('report.page', insight.page)] : []),
+      item('report.element', cell(insight.failing_element)),
+      ...(insight.selector ? [item('report.selector', `\`${insight.selector}\``)] : []),
+      ...(insight.explanation ? [item('report.explanation', cell(insight.explanation))] : []),
+      item('report.suggestion', cell(insight.suggestion)),
+      item('report.issue', `\`${insight.fingerprint}\``)
+    )
+  })
+
+  if (report.waived_findings.length > 0 || report.waiver_warnings.length > 0) {
+    lines.push('', `## ${t.text('report.waived_findings')}`, '')
+    report.waiver_warnings.forEach(warning =>
+      lines.push(`- **${t.text('report.warning')}:** ${warning}`)
+    )
+    if (report.waived_findings.length > 0) {
+      if (report.waiver_warnings.length > 0) lines.push('')
+      lines.push(...header(WAIVED_FINDING_COLUMNS))
+      report.waived_findings.forEach(finding => {
+        lines.push(
+          `| ${cell(finding.issue)} | ${cell(finding.page)} | ${cell(finding.selector)} | ${finding.waiver_id} | ${cell(finding.reason)} | ${cell(finding.approved_by)} | ${finding.expires_at} |`
+        )
+      })
+    }
+  }
+
+  if (report.narrative) {
+    lines.push('', `## ${t.text('report.narrative')}`, '', report.narrative)
+  }
+  return lines.join('\n') + '\n'
+}
+
+function renderHtml(report: ComplianceReport): string {
+  const t = translator(report.locale)
+  const title = t.text('report.title', { directive: report.directive })
+  const table = (caption: TextKey, headings: TextKey[], rows: string[][]) =>
+    [
+      '<table>',
+      `<caption>${escapeHtml(t.text(caption))}</caption>`,
+      `<thead><tr>${headings.map(h => `<th scope="col">${escapeHtml(t.text(h))}</th>`).join('')}</tr></thead>`,
+      '<tbody>',
+      ...rows.map(
+        row =>
+          `<tr><th scope="row">${escapeHtml(row[0])}</th>${row
+            .slice(1)
+            .map(value => `<td>${escapeHtml(value)}</td>`)
+            .join('')}</tr>`
+      ),
+      '</tbody>',
+      '</table>'
+    ].join('\n')
+
+  const sections = [
+    `<h1>${escapeHtml(title)}</h1>`,
+    ...(report.jurisdiction
+      ? [
+          `<p><strong>${escapeHtml(t.text('report.assessed_against'))}:</strong> ${escapeHtml(jurisdictionDetails(t, report.jurisdiction))}</p>`
+        ]
+      : []),
+    ...(report.applicability
+      ? [
+          `<p><strong>${escapeHtml(t.text('report.scope'))}:</strong> ${escapeHtml(scopeDetails(report.applicability))}</p>`
+        ]
+      : []),
+    ...(report.assessment_date
+      ? [
+          `<p><strong>${escapeHtml(t.text('report.assessment_date'))}:</strong> ${escapeHtml(report.assessment_date)}</p>`
+        ]
+      : []),
+    ...(report.score
+      ? [
+          `<p><strong>${escapeHtml(t.text('report.score'))}:</strong> ${report.score.finalScore}/100${escapeHtml(scoreDetails(t, report))}</p>`
+        ]
+      : []),
+    '<section aria-labelledby="summary">',
+    `<h2 id="summary">${escapeHtml(t.text('report.summary'))}</h2>`,
+    table(
+      'report.summary_caption',
+      ['report.status', 'report.requirements'],
+      SUMMARY_STATUSES.map(status => [
+        t.status(status),
+        report.summary[status].map(req => req.requirement_id).join(', ') || '–'
+      ])
+    ),
+    '</section>',
+    '<section aria-labelledby="requirements">',
+    `<h2 id="requirements">${escapeHtml(t.text('report.requirements'))}</h2>`,
+    table(
+      'report.requirements_caption',
+      [
+        'report.requirement',
+        'report.category',
+        'report.criticality',
+        'report.status',
+        'report.legal_reference'
+      ],
+      report.requirements.map(req => [
+        req.requirement_id,
+        req.category,
+        t.criticality(req.criticality),
+        t.status(req.status),
+        legalReference(req)
+      ])
+    ),
+    '</section>',
+    ...(report.upcoming_deadlines.length > 0
+      ? [
+          '<section aria-labelledby="upcoming-deadlines">',
+          `<h2 id="upcoming-deadlines">${escapeHtml(t.text('report.upcoming_deadlines'))}</h2>`,
+          table(
+            'report.upcoming_deadlines_caption',
+            DEADLINE_COLUMNS,
+            report.upcoming_deadlines.map(deadline => [
+              deadline.requirement_id,
+              t.criticality(deadline.criticality),
+              t.status(deadline.status),
+              t.text(`report.${deadline.obligation}`),
+              deadline.deadline,
+              deadline.legal_reference
+            ])
+          ),
+          '</section>'
+        ]
+      : []),
+    '<section aria-labelledby="failing-elements">',
+    `<h2 id="failing-elements">${escapeHtml(t.text('report.failing_elements'))}</h2>`,
+    report.actionable_insights.length === 0
+      ? `<p>${escapeHtml(t.text('report.no_failing_elements'))}</p>`
+      : table(
+          'report.failing_elements_caption',
+          [
+            'report.issue',
+            'report.requirement',
+            'report.page',
+            'report.element',
+            'report.selector',
+            'report.explanation',
+            'report.suggestion'
+          ],
+          report.actionable_insights.map(insight => [
+            insight.issue,
+            `${insight.requirement_id} (${t.criticality(insight.criticality)})`,
+            insight.page,
+            insight.failing_element,
+            insight.selector,
+            insight.explanation,
+            insight.suggestion
+          ])
+        ),
+    '</section>',
+    ...(report.waived_findings.length > 0 || report.waiver_warnings.length > 0
+      ? [
+          '<section aria-labelledby="waived-findings">',
+          `<h2 id="waived-findings">${escapeHtml(t.text('report.waived_findings'))}</h2>`,
+          ...(report.waiver_warnings.length > 0
+            ? [
+                '<ul>',
+                ...report.waiver_warnings.map(warning => `<li>${escapeHtml(warning)}</li>`),
+                '</ul>'
+              ]
+            : []),
+          ...(report.waived_findings.length > 0
+            ? [
+                table(
+                  'report.waived_findings_caption',
+                  WAIVED_FINDING_COLUMNS,
+                  report.waived_findings.map(finding => [
+                    finding.issue,
+                    finding.page,
+                    finding.selector,
+                    finding.waiver_id,
+                    finding.reason,
+                    finding.approved_by,
+                    finding.expires_at
+                  ])
+                )
+              ]
+            : []),
+          '</section>'
+        ]
+      : []),
+    ...(report.narrative
+      ? [
+          '<section aria-labelledby="narrative">',
+          `<h2 id="narrative">${escapeHtml(t.text('report.narrative'))}</h2>`,
+          ...markdownToHtml(report.narrative),
+          '</section>'
+        ]
+      : [])
+  ]
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${report.locale}">`,
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    '</head>',
+    '<body>',
+    '<main>',
+    ...sections,
+    '</main>',
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n')
+}
+
+// One row per failing element
+function renderCsv(report: ComplianceReport): string {
+  const columns: Array<keyof ActionableInsight> = [
+    'fingerprint',
+    'requirement_id',
+    'criticality',
+    'status',
+    'page',
+    'audit_id',
+    'issue',
+    'failing_element',
+    'selector',
+    'explanation',
+    'suggestion'
+  ]
+  const rows = report.actionable_insights.map(insight =>
+    columns.map(column => csvCell(insight[column])).join(',')
+  )
+  return [columns.join(','), ...rows].join('\r\n') + '\r\n'
+}
+
+export function csvCell(value: string): string {
+  // Keep spreadsheet apps from evaluating cells that start like a formula
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+function jurisdictionDetails(t: Translator, jurisdiction: AppliedJurisdiction): string {
+  return `${t.jurisdiction(jurisdiction)} (${jurisdiction.legislation.join('; ')})`
+}
+
+function scopeDetails(applicability: ApplicabilityProfile): string {
+  const channels =
+    applicability.channels.length > 0 ? ` (${applicability.channels.join(', ')})` : ''
+  return `${applicability.types.join(', ')}${channels}`
+}
+
+function legalReference(req: ReportRequirement): string {
+  return [req.legal_reference, req.national_reference].filter(Boolean).join('; ')
+}
+
+function scoreDetails(t: Translator, report: ComplianceReport): string {
+  const coverage = report.score?.coverage
+  if (!coverage) return ''
+  return ` (${t.text('report.coverage', {
+    assessed: coverage.assessed,
+    total: coverage.total,
+    confidence: t.confidence(coverage.confidence)
+  })})`
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+export function stripMarkdownLinks(value: string): string {
+  return value.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+}
+
+/**
+ * The Markdown the narrative is written in, as HTML: headings, numbered and bulleted lists and
+ * paragraphs, with code, bold and emphasis inside them. Headings start at h3, below the section's
+ * own h2. Everything else is escaped text, so nothing the model writes becomes markup.
+ */
+function markdownToHtml(markdown: string): string[] {
+  const html: string[] = []
+  let paragraph: string[] = []
+  let list: { tag: 'ol' | 'ul'; items: string[] } | undefined
+
+  const flush = () => {
+    if (paragraph.length > 0) html.push(`<p>${inlineMarkdown(paragraph.join(' '))}</p>`)
+    if (list) {
+      html.push(
+        `<${list.tag}>${list.items.map(item => `<li>${inlineMarkdown(item)}</li>`).join('')}</${list.tag}>`
+      )
+    }
+    paragraph = []
+    list = undefined
+  }
+
+  markdown.split('\n').forEach(line => {
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line)
+    const item = /^\s*(?:(\d+)[.)]|[-*+])\s+(.*)$/.exec(line)
+    if (!line.trim()) {
+      flush()
+    } else if (heading) {
+      flush()
+      const level = Math.min(6, Math.max(3, heading[1].length))
+      html.push(`<h${level}>${inlineMarkdown(heading[2])}</h${level}>`)
+    } else if (item) {
+      const tag = item[1] ? 'ol' : 'ul'
+      if (paragraph.length > 0 || list?.tag !== tag) flush()
+      list = list || { tag, items: [] }
+      list.items.push(item[2])
+    } else if (list) {
+      // A wrapped list item
+      list.items[list.items.length - 1] += ` ${line.trim()}`
+    } else {
+      paragraph.push(line.trim())
+    }
+  })
+  flush()
+  return html
+}
+
+function inlineMarkdown(text: string): string {
+  return stripMarkdownLinks(text)
+    .split(/(`[^`]+`)/)
+    .map(part =>
+      /^`[^`]+`$/.test(part)
+        ? `<code>${escapeHtml(part.slice(1, -1))}</code>`
+        : escapeHtml(part)
+            .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+            .replace(/(^|\W)([*_])(?!\s)(.+?)(?<!\s)\2(?=\W|$)/g, '$1<em>$3</em>')
+    )
+    .join('')
+}
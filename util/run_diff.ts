@@ -0,0 +1,204 @@
+import { z } from 'zod'
+import { calculateComplianceScore } from './scoring'
+import {
+  ComplianceData,
+  complianceRequirements,
+  complianceSchema,
+  failingElementsOf,
+  FAILING_STATUSES
+} from './compliance'
+
+// How good a status is; statuses missing here (pending, not_applicable) can change but never
+// improve, and only regress by moving into a failing status
+const STATUS_RANK: Record<string, number> = {
+  non_compliant: 0,
+  partially_compliant: 1,
+  needs_review: 2,
+  compliant: 3,
+  exempted: 3
+}
+
+const scoreSchema = z
+  .object({
+    finalScore: z.number(),
+    categories: z.record(z.object({ score: z.number().nullable() }).passthrough()).optional()
+  })
+  .passthrough()
+
+export const runSnapshotSchema = z.object({
+  label: z.string().describe('Sprint, date or release the run belongs to'),
+  compliance: complianceSchema,
+  score: scoreSchema.optional()
+})
+
+export type RunSnapshot = z.infer<typeof runSnapshotSchema>
+
+type StatusChange = { requirement_id: string; before: string; after: string }
+
+type ChangedElement = {
+  fingerprint: string
+  url?: string
+  audit_id: string
+  selector: string
+  node_label: string
+  requirement_ids: string[]
+}
+
+type ScoreChange = { before: number | null; after: number | null; delta: number | null }
+
+export type RunDiff = {
+  from: string
+  to: string
+  requirements: { regressed: StatusChange[]; improved: StatusChange[]; changed: StatusChange[] }
+  elements: { new: ChangedElement[]; fixed: ChangedElement[] }
+  score: ScoreChange & { categories: Record<string, ScoreChange> }
+}
+
+export function diffRuns(before: RunSnapshot, after: RunSnapshot): RunDiff {
+  const requirements: RunDiff['requirements'] = { regressed: [], improved: [], changed: [] }
+  const beforeStatuses = requirementStatuses(before.compliance)
+  requirementStatuses(after.compliance).forEach((status, requirementId) => {
+    const previous = beforeStatuses.get(requirementId)
+    if (!previous || previous === status) return
+
+    const change = { requirement_id: requirementId, before: previous, after: status }
+    const [rankBefore, rankAfter] = [STATUS_RANK[previous], STATUS_RANK[status]]
+    if (FAILING_STATUSES.includes(status) && !FAILING_STATUSES.includes(previous)) {
+      requirements.regressed.push(change)
+    } else if (rankBefore === undefined || rankAfter === undefined || rankBefore === rankAfter) {
+      requirements.changed.push(change)
+    } else if (rankAfter < rankBefore) {
+      requirements.regressed.push(change)
+    } else {
+      requirements.improved.push(change)
+    }
+  })
+
+  const beforeElements = changedElementKeys(before.compliance)
+  const afterElements = changedElementKeys(after.compliance)
+
+  const beforeScore = scoreOf(before)
+  const afterScore = scoreOf(after)
+  const categories = Array.from(
+    new Set([...Object.keys(beforeScore.categories), ...Object.keys(afterScore.categories)])
+  )
+
+  return {
+    from: before.label,
+    to: after.label,
+    requirements,
+    elements: {
+      new: Array.from(afterElements.entries())
+        .filter(([key]) => !beforeElements.has(key))
+        .map(([, element]) => element),
+      fixed: Array.from(beforeElements.entries())
+        .filter(([key]) => !afterElements.has(key))
+        .map(([, element]) => element)
+    },
+    score: {
+      ...scoreChange(beforeScore.finalScore, afterScore.finalScore),
+      categories: Object.fromEntries(
+        categories.map(category => [
+          category,
+          scoreChange(
+            beforeScore.categories[category] ?? null,
+            afterScore.categories[category] ?? null
+          )
+        ])
+      )
+    }
+  }
+}
+
+/**
+ * Diffs every run against the one before it and the last run against the first, with a short
+ * plain-text trend summary for release notes and auditors.
+ */
+export function compareRunSeries(runs: RunSnapshot[]): {
+  steps: RunDiff[]
+  overall: RunDiff
+  trend: Array<{ label: string; finalScore: number }>
+  summary: string[]
+} {
+  if (runs.length < 2) {
+    throw new Error('At least two runs are needed for a comparison.')
+  }
+
+  const steps = runs.slice(1).map((run, index) => diffRuns(runs[index], run))
+  const overall = diffRuns(runs[0], runs[runs.length - 1])
+  const latest = steps[steps.length - 1]
+  const trend = runs.map(run => ({ label: run.label, finalScore: scoreOf(run).finalScore }))
+
+  const summary = [
+    `Score ${trend.map(point => point.finalScore).join(' → ')} from ${overall.from} to ${overall.to} (${formatDelta(overall.score.delta)}).`
+  ]
+  if (latest.requirements.regressed.length > 0) {
+    summary.push(
+      `Regressed since ${latest.from}: ${latest.requirements.regressed.map(formatChange).join(', ')}.`
+    )
+  }
+  if (latest.requirements.improved.length > 0) {
+    summary.push(
+      `Improved since ${latest.from}: ${latest.requirements.improved.map(formatChange).join(', ')}.`
+    )
+  }
+  summary.push(
+    `Failing elements since ${latest.from}: ${latest.elements.fixed.length} fixed, ${latest.elements.new.length} new.`
+  )
+
+  return { steps, overall, trend, summary }
+}
+
+function requirementStatuses(compliance: ComplianceData): Map<string, string> {
+  return new Map(complianceRequirements(compliance).map(req => [req.requirement_id, req.status]))
+}
+
+// Failing elements keyed by issue fingerprint
+function changedElementKeys(compliance: ComplianceData): Map<string, ChangedElement> {
+  const elements = new Map<string, ChangedElement>()
+  failingElementsOf(compliance).forEach(failing => {
+    const key = failing.fingerprint
+    const element = elements.get(key) || {
+      fingerprint: failing.fingerprint,
+      url: failing.url,
+      audit_id: failing.audit_id,
+      selector: failing.selector,
+      node_label: failing.node_label,
+      requirement_ids: []
+    }
+    if (!element.requirement_ids.includes(failing.requirement_id)) {
+      element.requirement_ids.push(failing.requirement_id)
+    }
+    elements.set(key, element)
+  })
+  return elements
+}
+
+function scoreOf(run: RunSnapshot): {
+  finalScore: number
+  categories: Record<string, number | null>
+} {
+  const score = run.score || calculateComplianceScore(run.compliance)
+  return {
+    finalScore: score.finalScore,
+    categories: Object.fromEntries(
+      Object.entries(score.categories || {}).map(([category, subscore]) => [
+        category,
+        subscore.score
+      ])
+    )
+  }
+}
+
+function scoreChange(before: number | null, after: number | null): ScoreChange {
+  return { before, after, delta: before === null || after === null ? null : after - before }
+}
+
+function formatChange(change: StatusChange): string {
+  return `${change.requirement_id} (${change.before} → ${change.after})`
+}
+
+function formatDelta(delta: number | null): string {
+  if (delta === null) return 'no score'
+  return delta > 0 ? `+${delta}` : String(delta)
+}
@@ -0,0 +1,168 @@
+import {
+  ComplianceData,
+  complianceJurisdiction,
+  ComplianceRequirement,
+  complianceRequirements,
+  failingElementsOf
+} from './compliance'
+
+// compliance.json as a SARIF 2.1.0 log, one result per failing element
+export const SARIF_PATH = 'eaa-results.sarif'
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json'
+
+const CRITICALITY_LEVEL: Record<string, SarifLevel> = {
+  HIGH: 'error',
+  MEDIUM: 'warning',
+  LOW: 'note'
+}
+
+const LEVEL_ORDER: SarifLevel[] = ['note', 'warning', 'error']
+
+type SarifLevel = 'error' | 'warning' | 'note'
+
+type SarifRule = {
+  id: string
+  name: string
+  shortDescription: { text: string }
+  fullDescription: { text: string }
+  helpUri?: string
+}
+
+type SarifResult = {
+  ruleId: string
+  ruleIndex: number
+  level: SarifLevel
+  message: { text: string }
+  // The issue fingerprint, so code-scanning tools match results across runs
+  partialFingerprints: Record<string, string>
+  locations: Array<{
+    physicalLocation?: {
+      artifactLocation: { uri: string }
+      region?: { snippet: { text: string } }
+    }
+    logicalLocations?: Array<{ fullyQualifiedName: string; kind: string }>
+  }>
+  properties: {
+    requirement_ids: string[]
+    legal_references: string[]
+    criticality: string
+    selector: string
+  }
+}
+
+export type SarifLog = {
+  $schema: string
+  version: '2.1.0'
+  runs: Array<{
+    tool: { driver: { name: string; rules: SarifRule[] } }
+    results: SarifResult[]
+    properties?: Record<string, unknown>
+  }>
+}
+
+/**
+ * An element that fails one audit for several requirements becomes a single result listing all
+ * of them, at the level of its most critical requirement.
+ */
+export function complianceToSarif(compliance: ComplianceData): SarifLog {
+  const requirements = new Map(
+    complianceRequirements(compliance).map(req => [req.requirement_id, req])
+  )
+  const rules: SarifRule[] = []
+  const results = new Map<string, SarifResult>()
+
+  failingElementsOf(compliance).forEach(element => {
+    let ruleIndex = rules.findIndex(rule => rule.id === element.audit_id)
+    if (ruleIndex === -1) {
+      const helpUri = element.description.match(/\]\((https?:\/\/[^)]+)\)/)?.[1]
+      rules.push({
+        id: element.audit_id,
+        name: element.audit_id,
+        shortDescription: { text: element.title || element.audit_id },
+        fullDescription: { text: element.description.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1') },
+        ...(helpUri ? { helpUri } : {})
+      })
+      ruleIndex = rules.length - 1
+    }
+
+    const requirement = requirements.get(element.requirement_id)
+    const level = CRITICALITY_LEVEL[requirement?.criticality || ''] || 'warning'
+    const key = element.fingerprint
+    const existing = results.get(key)
+    if (existing) {
+      if (!existing.properties.requirement_ids.includes(element.requirement_id)) {
+        existing.properties.requirement_ids.push(element.requirement_id)
+        existing.properties.legal_references.push(...legalReferencesOf(requirement))
+      }
+      if (LEVEL_ORDER.indexOf(level) > LEVEL_ORDER.indexOf(existing.level)) {
+        existing.level = level
+        existing.properties.criticality = requirement?.criticality || ''
+      }
+      return
+    }
+
+    results.set(key, {
+      ruleId: element.audit_id,
+      ruleIndex,
+      level,
+      partialFingerprints: { 'eaaIssue/v1': element.fingerprint },
+      message: {
+        text:
+          [element.title, element.explanation || element.node_label].filter(Boolean).join(': ') ||
+          element.audit_id
+      },
+      locations: [
+        {
+          ...(element.url
+            ? {
+                physicalLocation: {
+                  artifactLocation: { uri: element.url },
+                  ...(element.snippet ? { region: { snippet: { text: element.snippet } } } : {})
+                }
+              }
+            : {}),
+          ...(element.selector
+            ? { logicalLocations: [{ fullyQualifiedName: element.selector, kind: 'element' }] }
+            : {})
+        }
+      ],
+      properties: {
+        requirement_ids: [element.requirement_id],
+        legal_references: legalReferencesOf(requirement),
+        criticality: requirement?.criticality || '',
+        selector: element.selector
+      }
+    })
+  })
+
+  const mappingVersion = Array.isArray(compliance.mappedResults)
+    ? undefined
+    : (compliance.mappedResults.mapping_version as string | undefined)
+  const jurisdiction = complianceJurisdiction(compliance)?.code
+  const properties = {
+    ...(mappingVersion ? { mapping_version: mappingVersion } : {}),
+    ...(jurisdiction ? { jurisdiction } : {})
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: { name: 'EAA-Legislator', rules }
+        },
+        results: Array.from(results.values()),
+        ...(Object.keys(properties).length > 0 ? { properties } : {})
+      }
+    ]
+  }
+}
+
+// Annex I reference first, then the national one when a jurisdiction profile was applied
+function legalReferencesOf(requirement?: ComplianceRequirement): string[] {
+  return [requirement?.legal_reference, requirement?.national_reference].filter(
+    (reference): reference is string => Boolean(reference)
+  )
+}
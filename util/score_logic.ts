@@ -1,95 +1,231 @@
-import fs from 'fs';
-
-type EAARequirement = {
-    requirement_id: string;
-    description: string;
-    category: string;
-    criticality: string;
-    legal_reference: string;
-    status: string;
-    exemptible: boolean;
-};
-
-type EAAGuidelines = {
-    directive: string;
-    requirements: EAARequirement[];
-};
-
-type LighthouseAudit = {
-    id: string;
-    title: string;
-    description: string;
-    score: number | null;
-    scoreDisplayMode: string;
-    details?: any; // Optional additional data like tables, items, or debugging information
-};
-
-
-const lighthouseToEAAMapping: Record<string, string[]> = {
-    "color-contrast": ["A1.1"],
-    "image-alt": ["A1.1"],
-    "video-caption": ["A1.1"],
-    "object-alt": ["A1.1"],
-    "aria-allowed-attr": ["A1.1"],
-    "meta-viewport": ["A1.2"],
-    "target-size": ["A1.2"],
-    "focus-traps": ["A1.2"],
-    "interactive-element-affordance": ["A1.2"],
-    "link-name": ["A6.1"],
-    "button-name": ["A6.1"],
-    "form-field-multiple-labels": ["A6.1"],
-    "label": ["A6.1"],
-    "html-has-lang": ["A6.1"],
-    "aria-required-attr": ["A1.1"],
-    "aria-valid-attr-value": ["A1.1"],
-    "aria-roles": ["A1.1"],
-    "duplicate-id-aria": ["A1.1"]
-};
-
-export function mapLighthouseToEAA(lighthouseJson: Record<string, LighthouseAudit>, eaaGuidelines: EAAGuidelines): { mappedResults: EAAGuidelines; auditFix: Record<string, LighthouseAudit> } {
-    const mappedResults: EAAGuidelines = JSON.parse(JSON.stringify(eaaGuidelines));
-
-    const statusCounts: Record<string, { compliant: number; non_compliant: number; exempted: number }> = {};
-
-    const auditFix: Record<string, LighthouseAudit> = {};
-
-    // Iterate through Lighthouse audits
-    Object.entries(lighthouseJson).forEach(([auditId, audit]) => {
-        const eaaIds = lighthouseToEAAMapping[auditId];
-        if (eaaIds) {
-            eaaIds.forEach(eaaId => {
-                if (!statusCounts[eaaId]) {
-                    statusCounts[eaaId] = { compliant: 0, non_compliant: 0, exempted: 0 };
-                }
-
-                if (audit.score === 1) {
-                    statusCounts[eaaId].compliant++;
-                } else if (audit.score === 0) {
-                    statusCounts[eaaId].non_compliant++;
-                    auditFix[eaaId] = audit;
-
-                } else {
-                    statusCounts[eaaId].exempted++;
-                }
-            });
+import { EAAMapping, loadEAAMapping, traceRule, UnmappedReason } from './mapping'
+import { findAttestation, ManualAttestation } from './manual_review'
+import { AppliedExemption } from './exemptions'
+import { AppliedJurisdiction } from './jurisdiction'
+import { ApplicabilityProfile } from './applicability'
+import { Locale } from './i18n'
+import { DatasetInfo } from './regulation_datasets'
+import { AppliedTimeline, Obligation, RequirementTimeline, Transition } from './timeline'
+import { Issue, issuesFromAudit } from './issues'
+import { findWaiver, WaivedIssue, Waiver } from './waivers'
+
+export type DerivedFrom = {
+  audits: string[]
+  wcag: string[]
+  en301549: string[]
+  // Audits the engine could not decide (axe `incomplete`, Lighthouse `manual`); a person has to
+  needs_review: string[]
+  // Audits of that kind a tester has already given a verdict on
+  reviewed: string[]
+  // Audits that only failed on waived elements
+  waived: string[]
+}
+
+export type EAARequirement = {
+  requirement_id: string
+  description: string
+  category: string
+  criticality: string
+  legal_reference: string
+  // The description and category in the language the regulations were fetched in
+  translation?: { description: string; category: string }
+  // Transposing national law, once a jurisdiction profile is applied
+  national_reference?: string
+  status: string
+  exemptible: boolean
+  // Article 2 product and service types, and optionally channels, the requirement covers
+  applies_to?: { types: string[]; channels?: string[] }
+  // When the requirement applies and which transitional periods can postpone it
+  timeline?: RequirementTimeline
+  // Whether it is enforceable on the assessment date, once the timeline is applied
+  obligation?: Obligation
+  derived_from?: DerivedFrom
+  // Site audits only: which pages fail or pass this requirement
+  pages?: { failing: string[]; passing: string[] }
+  // The claim that makes this requirement exempted
+  exemption?: AppliedExemption
+}
+
+export type EAAGuidelines = {
+  directive: string
+  // Which published regulation dataset the requirements come from
+  dataset?: DatasetInfo
+  mapping_version?: string
+  jurisdiction?: AppliedJurisdiction
+  // The scope the client declared; requirements outside it are not_applicable
+  applicability?: ApplicabilityProfile
+  // Transitional periods the requirement timelines refer to, by id
+  transitions?: Record<string, Transition>
+  // The assessment date and product facts the obligations were worked out for
+  timeline?: AppliedTimeline
+  // Language the requirement texts are in, when fetched in another one than English
+  locale?: Locale
+  requirements: EAARequirement[]
+}
+
+export type LighthouseAudit = {
+  id: string
+  title: string
+  description: string
+  score: number | null
+  scoreDisplayMode: string
+  details?: any // Optional additional data like tables, items, or debugging information
+}
+
+export type UnmappedAudit = {
+  audit_id: string
+  title: string
+  reason: UnmappedReason
+}
+
+// Fail at startup rather than on the first comparison if the dataset is broken
+const eaaMapping = loadEAAMapping()
+
+export function mapLighthouseToEAA(
+  lighthouseJson: Record<string, LighthouseAudit>,
+  eaaGuidelines: EAAGuidelines,
+  attestations: ManualAttestation[] = [],
+  pageUrl?: string,
+  waivers: Waiver[] = [],
+  // Defaults to the bundled dataset; evidence bundles replay with the one they recorded
+  mapping: EAAMapping = eaaMapping
+): {
+  mappedResults: EAAGuidelines
+  issues: Issue[]
+  waived: WaivedIssue[]
+  unmappedAudits: UnmappedAudit[]
+} {
+  const mappedResults: EAAGuidelines = JSON.parse(JSON.stringify(eaaGuidelines))
+  mappedResults.mapping_version = mapping.version
+
+  // Audits never count towards requirements outside the declared scope
+  const knownRequirements = new Set(
+    mappedResults.requirements
+      .filter(req => req.status !== 'not_applicable')
+      .map(req => req.requirement_id)
+  )
+
+  const statusCounts: Record<
+    string,
+    { compliant: number; non_compliant: number; needs_review: number }
+  > = {}
+  const derivedFrom: Record<string, DerivedFrom> = {}
+
+  const issues: Issue[] = []
+  const waived: WaivedIssue[] = []
+  const unmappedAudits: UnmappedAudit[] = []
+
+  // Iterate through Lighthouse audits
+  Object.entries(lighthouseJson).forEach(([auditId, audit]) => {
+    const tags: string[] = audit.details?.debugData?.tags || []
+    const trace = traceRule(auditId, mapping, knownRequirements, tags)
+    if (typeof trace === 'string') {
+      unmappedAudits.push({ audit_id: auditId, title: audit.title, reason: trace })
+      return
+    }
+
+    let verdict: 'compliant' | 'non_compliant' | 'needs_review' | undefined
+    let attested = false
+    if (audit.score === 1) {
+      verdict = 'compliant'
+    } else if (audit.score === 0) {
+      verdict = 'non_compliant'
+    } else if (audit.scoreDisplayMode === 'manual') {
+      // A tester's verdict settles it; until then it counts neither way
+      const attestation = findAttestation(attestations, auditId, pageUrl)
+      attested = attestation !== undefined
+      verdict = !attestation
+        ? 'needs_review'
+        : attestation.result === 'pass'
+          ? 'compliant'
+          : 'non_compliant'
+    }
+    // notApplicable and informative audits say nothing about compliance
+
+    // A failing audit is recorded once, against every requirement it affects. Waived findings
+    // are set aside, and an audit that only fails on waived elements passes.
+    let auditWaived = false
+    if (verdict === 'non_compliant') {
+      const found = issuesFromAudit(auditId, audit, trace.requirements, pageUrl)
+      found.forEach(issue => {
+        const waiver = findWaiver(waivers, issue)
+        if (waiver) {
+          waived.push({ ...issue, waiver })
+        } else {
+          issues.push(issue)
         }
-    });
-
-    // Determine final status
-    mappedResults.requirements.forEach(requirement => {
-        const counts = statusCounts[requirement.requirement_id];
-        if (counts) {
-            if (counts.non_compliant > 0 && counts.compliant > 0) {
-                requirement.status = "partially_compliant";
-            } else if (counts.non_compliant > 0) {
-                requirement.status = "non_compliant";
-            } else if (counts.compliant > 0) {
-                requirement.status = "compliant";
-            } else {
-                requirement.status = "exempted";
-            }
+      })
+      if (found.every(issue => waived.some(entry => entry.fingerprint === issue.fingerprint))) {
+        verdict = 'compliant'
+        auditWaived = true
+      }
+    }
+
+    trace.requirements.forEach(eaaId => {
+      if (!statusCounts[eaaId]) {
+        statusCounts[eaaId] = { compliant: 0, non_compliant: 0, needs_review: 0 }
+        derivedFrom[eaaId] = {
+          audits: [],
+          wcag: [],
+          en301549: [],
+          needs_review: [],
+          reviewed: [],
+          waived: []
         }
-    });
+      }
+
+      // Only record the criteria and clauses that actually lead to this requirement
+      const clauses = trace.en301549.filter(clause =>
+        mapping.clauses[clause].requirements.includes(eaaId)
+      )
+      addUnique(derivedFrom[eaaId].audits, [auditId])
+      addUnique(
+        derivedFrom[eaaId].wcag,
+        trace.wcag.filter(sc =>
+          [...mapping.criteria[sc].en301549, ...mapping.criteria[sc].en301549_software].some(c =>
+            clauses.includes(c)
+          )
+        )
+      )
+      addUnique(derivedFrom[eaaId].en301549, clauses)
+
+      if (verdict) {
+        statusCounts[eaaId][verdict]++
+      }
+      if (verdict === 'needs_review') {
+        addUnique(derivedFrom[eaaId].needs_review, [auditId])
+      }
+      if (attested) {
+        addUnique(derivedFrom[eaaId].reviewed, [auditId])
+      }
+      if (auditWaived) {
+        addUnique(derivedFrom[eaaId].waived, [auditId])
+      }
+    })
+  })
+
+  // Determine final status
+  mappedResults.requirements.forEach(requirement => {
+    const counts = statusCounts[requirement.requirement_id]
+    if (counts) {
+      if (counts.non_compliant > 0 && counts.compliant > 0) {
+        requirement.status = 'partially_compliant'
+      } else if (counts.non_compliant > 0) {
+        requirement.status = 'non_compliant'
+      } else if (counts.needs_review > 0) {
+        requirement.status = 'needs_review'
+      } else if (counts.compliant > 0) {
+        requirement.status = 'compliant'
+      }
+      requirement.derived_from = derivedFrom[requirement.requirement_id]
+    }
+  })
+
+  return { mappedResults, issues, waived, unmappedAudits }
+}
 
-    return { mappedResults, auditFix };
+export function addUnique(target: string[], values: string[]) {
+  values.forEach(value => {
+    if (!target.includes(value)) target.push(value)
+  })
 }
@@ -0,0 +1,168 @@
+import { z } from 'zod'
+import { ComplianceData, complianceRequirements, failingElementsOf } from './compliance'
+
+export type ScoringProfile = {
+  description: string
+  criticality: Record<'HIGH' | 'MEDIUM' | 'LOW', number>
+  // Share of the requirement weight earned per status; null leaves the requirement out entirely
+  status: Record<string, number | null>
+  // Each failing element takes this much off a requirement's share, up to maxElementPenalty
+  elementPenalty: number
+  maxElementPenalty: number
+}
+
+// For profiles read back from elsewhere, such as an evidence bundle
+export const scoringProfileSchema = z.object({
+  description: z.string(),
+  criticality: z.object({ HIGH: z.number(), MEDIUM: z.number(), LOW: z.number() }),
+  status: z.record(z.number().min(0).max(1).nullable()),
+  elementPenalty: z.number().min(0),
+  maxElementPenalty: z.number().min(0)
+})
+
+export const SCORING_PROFILES: Record<string, ScoringProfile> = {
+  default: {
+    description: 'Weights HIGH/MEDIUM/LOW as 3/2/1 and scores only assessed requirements.',
+    criticality: { HIGH: 3, MEDIUM: 2, LOW: 1 },
+    status: {
+      compliant: 1,
+      partially_compliant: 0.5,
+      non_compliant: 0,
+      exempted: 1,
+      needs_review: null,
+      pending: null,
+      not_applicable: null
+    },
+    elementPenalty: 0.02,
+    maxElementPenalty: 0.3
+  },
+  strict: {
+    description:
+      'Weights HIGH requirements heavier and counts unassessed or unreviewed requirements as failing.',
+    criticality: { HIGH: 5, MEDIUM: 2, LOW: 1 },
+    status: {
+      compliant: 1,
+      partially_compliant: 0.25,
+      non_compliant: 0,
+      exempted: 1,
+      needs_review: 0,
+      pending: 0,
+      not_applicable: null
+    },
+    elementPenalty: 0.05,
+    maxElementPenalty: 0.25
+  }
+}
+
+const ASSESSED_STATUSES = ['compliant', 'partially_compliant', 'non_compliant', 'exempted']
+
+type Subscore = { score: number | null; requirements: number }
+
+export type RequirementScore = {
+  requirement_id: string
+  category: string
+  criticality: string
+  status: string
+  weight: number
+  failing_elements: number
+  score: number | null
+}
+
+export type ComplianceScore = {
+  finalScore: number
+  profile: string
+  coverage: {
+    assessed: number
+    total: number
+    ratio: number
+    confidence: 'high' | 'medium' | 'low'
+  }
+  categories: Record<string, Subscore>
+  criticality: Record<string, Subscore>
+  requirements: RequirementScore[]
+}
+
+export function calculateComplianceScore(
+  compliance: ComplianceData,
+  profileName = 'default',
+  // Scores with these weights under profileName instead of looking the profile up
+  profile: ScoringProfile | undefined = SCORING_PROFILES[profileName]
+): ComplianceScore {
+  if (!profile) {
+    throw new Error(
+      `Unknown scoring profile "${profileName}". Available profiles: ${Object.keys(SCORING_PROFILES).join(', ')}.`
+    )
+  }
+
+  const requirements = complianceRequirements(compliance)
+  const elements = failingElementsOf(compliance)
+
+  const requirementScores: RequirementScore[] = requirements.map(requirement => {
+    const failingElements = elements.filter(
+      element => element.requirement_id === requirement.requirement_id
+    ).length
+    const statusShare = profile.status[requirement.status]
+    const penalty = Math.min(failingElements * profile.elementPenalty, profile.maxElementPenalty)
+    return {
+      requirement_id: requirement.requirement_id,
+      category: requirement.category,
+      criticality: requirement.criticality,
+      status: requirement.status,
+      weight: profile.criticality[requirement.criticality],
+      failing_elements: failingElements,
+      score:
+        statusShare === null || statusShare === undefined
+          ? null
+          : Math.max(0, statusShare - (statusShare < 1 ? penalty : 0))
+    }
+  })
+
+  // Out-of-scope requirements are neither assessed nor missing
+  const inScope = requirements.filter(req => req.status !== 'not_applicable').length
+  const assessed = requirements.filter(req => ASSESSED_STATUSES.includes(req.status)).length
+  const ratio = inScope > 0 ? assessed / inScope : 0
+
+  return {
+    finalScore: weightedScore(requirementScores) ?? 0,
+    profile: profileName,
+    coverage: {
+      assessed,
+      total: inScope,
+      ratio: Math.round(ratio * 100) / 100,
+      confidence: ratio >= 0.8 ? 'high' : ratio >= 0.5 ? 'medium' : 'low'
+    },
+    categories: subscores(requirementScores, score => score.category),
+    criticality: subscores(requirementScores, score => score.criticality),
+    requirements: requirementScores
+  }
+}
+
+function weightedScore(scores: RequirementScore[]): number | null {
+  const scored = scores.filter(score => score.score !== null)
+  const maxPossibleScore = scored.reduce((total, score) => total + score.weight, 0)
+  if (maxPossibleScore === 0) return null
+
+  const totalWeightedScore = scored.reduce(
+    (total, score) => total + (score.score || 0) * score.weight,
+    0
+  )
+  // Normalize to a percentage out of 100
+  return Math.round((totalWeightedScore / maxPossibleScore) * 100)
+}
+
+function subscores(
+  scores: RequirementScore[],
+  groupBy: (score: RequirementScore) => string
+): Record<string, Subscore> {
+  const groups: Record<string, RequirementScore[]> = {}
+  scores.forEach(score => {
+    const key = groupBy(score)
+    groups[key] = [...(groups[key] || []), score]
+  })
+  return Object.fromEntries(
+    Object.entries(groups).map(([key, group]) => [
+      key,
+      { score: weightedScore(group), requirements: group.length }
+    ])
+  )
+}
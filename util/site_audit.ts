@@ -0,0 +1,167 @@
+import { z } from 'zod'
+import {
+  addUnique,
+  DerivedFrom,
+  EAAGuidelines,
+  mapLighthouseToEAA,
+  UnmappedAudit
+} from './score_logic'
+import { AuditInput, AuditMetadata } from './audit_input'
+import { ManualAttestation } from './manual_review'
+import { Issue, mergeIssues } from './issues'
+import { WaivedIssue, Waiver } from './waivers'
+import { EAAMapping } from './mapping'
+import { FAILING_STATUSES } from './compliance'
+
+// Where run-comparison looks for page audits, in order of preference
+export const AUDIT_MANIFEST_PATH = 'audit-manifest.json'
+export const AUDIT_DIRECTORY_GLOB = 'audits/*.json'
+export const SINGLE_AUDIT_PATH = 'audit.json'
+
+export const auditManifestSchema = z.object({
+  pages: z
+    .array(
+      z.object({
+        url: z.string(),
+        template: z.string().optional(),
+        file: z.string()
+      })
+    )
+    .min(1, 'the manifest must list at least one page')
+})
+
+export type AuditManifest = z.infer<typeof auditManifestSchema>
+
+export type PageAuditInput = {
+  url: string
+  template?: string
+  input: AuditInput
+}
+
+export type PageSummary = {
+  url: string
+  template?: string
+  auditMetadata: AuditMetadata
+  failing_requirements: string[]
+  clean: boolean
+  // Fingerprints of the issues found on the page
+  issues: string[]
+}
+
+const UNEVALUATED_STATUSES = ['pending', 'not_applicable']
+
+/**
+ * Runs the mapping for every page and rolls requirement statuses up to the whole service: a
+ * requirement is only compliant when no evaluated page fails it or still needs review,
+ * non_compliant when every evaluated page fails it and partially_compliant otherwise.
+ */
+export function mapSiteToEAA(
+  pages: PageAuditInput[],
+  eaaGuidelines: EAAGuidelines,
+  attestations: ManualAttestation[] = [],
+  waivers: Waiver[] = [],
+  mapping?: EAAMapping
+): {
+  mappedResults: EAAGuidelines
+  issues: Issue[]
+  waived: WaivedIssue[]
+  unmappedAudits: UnmappedAudit[]
+  pages: PageSummary[]
+} {
+  const pageResults = pages.map(page => ({
+    page,
+    ...mapLighthouseToEAA(
+      page.input.audits,
+      eaaGuidelines,
+      attestations,
+      page.url,
+      waivers,
+      mapping
+    )
+  }))
+
+  const mappedResults: EAAGuidelines = JSON.parse(JSON.stringify(eaaGuidelines))
+  const unmappedAudits: UnmappedAudit[] = []
+
+  pageResults.forEach(result => {
+    mappedResults.mapping_version = result.mappedResults.mapping_version
+    result.unmappedAudits
+      .filter(unmapped => !unmappedAudits.some(known => known.audit_id === unmapped.audit_id))
+      .forEach(unmapped => unmappedAudits.push(unmapped))
+  })
+
+  mappedResults.requirements.forEach(requirement => {
+    const pageStatuses = pageResults.map(result => ({
+      url: result.page.url,
+      requirement: result.mappedResults.requirements.find(
+        req => req.requirement_id === requirement.requirement_id
+      )
+    }))
+    const evaluated = pageStatuses.filter(
+      ({ requirement: req }) => req && !UNEVALUATED_STATUSES.includes(req.status)
+    )
+    if (evaluated.length === 0) return
+
+    const failing = evaluated.filter(({ requirement: req }) =>
+      FAILING_STATUSES.includes(req?.status || '')
+    )
+    const passing = evaluated.filter(({ requirement: req }) => req?.status === 'compliant')
+    const inReview = evaluated.some(({ requirement: req }) => req?.status === 'needs_review')
+
+    if (failing.length > 0) {
+      const allNonCompliant = evaluated.every(
+        ({ requirement: req }) => req?.status === 'non_compliant'
+      )
+      requirement.status = allNonCompliant ? 'non_compliant' : 'partially_compliant'
+    } else if (inReview) {
+      requirement.status = 'needs_review'
+    } else {
+      requirement.status = 'compliant'
+    }
+
+    const derivedFrom: DerivedFrom = {
+      audits: [],
+      wcag: [],
+      en301549: [],
+      needs_review: [],
+      reviewed: [],
+      waived: []
+    }
+    evaluated.forEach(({ requirement: req }) => {
+      if (!req?.derived_from) return
+      addUnique(derivedFrom.audits, req.derived_from.audits)
+      addUnique(derivedFrom.wcag, req.derived_from.wcag)
+      addUnique(derivedFrom.en301549, req.derived_from.en301549)
+      addUnique(derivedFrom.needs_review, req.derived_from.needs_review)
+      addUnique(derivedFrom.reviewed, req.derived_from.reviewed)
+      addUnique(derivedFrom.waived, req.derived_from.waived)
+    })
+    requirement.derived_from = derivedFrom
+    requirement.pages = {
+      failing: failing.map(({ url }) => url),
+      passing: passing.map(({ url }) => url)
+    }
+  })
+
+  const pageSummaries: PageSummary[] = pageResults.map(result => {
+    const failingRequirements = result.mappedResults.requirements
+      .filter(req => FAILING_STATUSES.includes(req.status))
+      .map(req => req.requirement_id)
+    return {
+      url: result.page.url,
+      template: result.page.template,
+      auditMetadata: result.page.input.metadata,
+      failing_requirements: failingRequirements,
+      clean: failingRequirements.length === 0,
+      issues: result.issues.map(issue => issue.fingerprint)
+    }
+  })
+
+  return {
+    mappedResults,
+    issues: mergeIssues(pageResults.flatMap(result => result.issues)),
+    waived: pageResults.flatMap(result => result.waived),
+    unmappedAudits,
+    pages: pageSummaries
+  }
+}
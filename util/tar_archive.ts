@@ -0,0 +1,110 @@
+import { gunzipSync, gzipSync } from 'zlib'
+
+// Just enough of ustar to write and read back flat archives of regular files, so evidence
+// bundles open with any tar tool without adding a dependency.
+
+const BLOCK = 512
+
+export type ArchiveEntry = { path: string; content: Buffer }
+
+/**
+ * Packs the entries, in the given order, into a gzipped tar. Every entry gets the same
+ * modification time so the same entries always give the same bytes.
+ */
+export function writeTarGz(entries: ArchiveEntry[], modifiedAt: Date): Buffer {
+  const mtime = Math.floor(modifiedAt.getTime() / 1000)
+  const blocks = entries.flatMap(entry => {
+    checkPath(entry.path)
+    if (Buffer.byteLength(entry.path) > 100) {
+      throw new Error(`Archive path "${entry.path}" is longer than 100 bytes.`)
+    }
+    const padding = (BLOCK - (entry.content.length % BLOCK)) % BLOCK
+    return [header(entry.path, entry.content.length, mtime), entry.content, Buffer.alloc(padding)]
+  })
+  // Two empty blocks end the archive
+  return gzipSync(Buffer.concat([...blocks, Buffer.alloc(BLOCK * 2)]))
+}
+
+/**
+ * Unpacks a gzipped tar written by writeTarGz (or any ustar tool). Only regular files are
+ * returned; directories are skipped and anything else, or a path leaving the archive, is an error.
+ */
+export function readTarGz(archive: Buffer, maxBytes: number): ArchiveEntry[] {
+  let tar: Buffer
+  try {
+    tar = gunzipSync(archive, { maxOutputLength: maxBytes })
+  } catch (error) {
+    throw new Error(
+      `Not a gzipped archive or larger than ${maxBytes} bytes: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  const entries: ArchiveEntry[] = []
+  for (let offset = 0; offset + BLOCK <= tar.length;) {
+    const block = tar.subarray(offset, offset + BLOCK)
+    if (block.every(byte => byte === 0)) break
+
+    const stored = octal(block, 148, 8)
+    if (stored !== checksum(block)) {
+      throw new Error(`Corrupt archive: bad header checksum at byte ${offset}.`)
+    }
+    const prefix = text(block, 345, 155)
+    const path = prefix ? `${prefix}/${text(block, 0, 100)}` : text(block, 0, 100)
+    const size = octal(block, 124, 12)
+    const type = String.fromCharCode(block[156])
+    const start = offset + BLOCK
+    if (start + size > tar.length) {
+      throw new Error(`Corrupt archive: ${path} is cut short.`)
+    }
+
+    if (type === '0' || type === '\0') {
+      checkPath(path)
+      entries.push({ path, content: Buffer.from(tar.subarray(start, start + size)) })
+    } else if (type !== '5') {
+      throw new Error(`Unsupported archive entry ${path} (type ${type}).`)
+    }
+    offset = start + Math.ceil(size / BLOCK) * BLOCK
+  }
+  return entries
+}
+
+function header(path: string, size: number, mtime: number): Buffer {
+  const block = Buffer.alloc(BLOCK)
+  block.write(path, 0, 100, 'utf8')
+  block.write('0000644\0', 100, 'ascii')
+  block.write('0000000\0', 108, 'ascii')
+  block.write('0000000\0', 116, 'ascii')
+  block.write(`${size.toString(8).padStart(11, '0')}\0`, 124, 'ascii')
+  block.write(`${mtime.toString(8).padStart(11, '0')}\0`, 136, 'ascii')
+  block.write('0', 156, 'ascii')
+  block.write('ustar\0', 257, 'ascii')
+  block.write('00', 263, 'ascii')
+  block.write(`${checksum(block).toString(8).padStart(6, '0')}\0 `, 148, 'ascii')
+  return block
+}
+
+// Sum of the header bytes with the checksum field itself counted as spaces
+function checksum(block: Buffer): number {
+  let sum = 0
+  for (let i = 0; i < BLOCK; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : block[i]
+  }
+  return sum
+}
+
+function octal(block: Buffer, offset: number, length: number): number {
+  const value = text(block, offset, length).trim()
+  return value ? parseInt(value, 8) : 0
+}
+
+function text(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length)
+  const end = field.indexOf(0)
+  return field.subarray(0, end === -1 ? length : end).toString('utf8')
+}
+
+function checkPath(path: string) {
+  if (!path || path.startsWith('/') || path.split('/').includes('..')) {
+    throw new Error(`Archive path "${path}" must be relative and stay inside the archive.`)
+  }
+}
@@ -0,0 +1,158 @@
+import { z } from 'zod'
+import { toIsoDate } from './dates'
+import { EAAGuidelines } from './score_logic'
+
+// When each requirement becomes enforceable (Article 31, Directive (EU) 2019/882) and the
+// transitional periods of Article 32 that let contracts and terminals from before that date run
+// on. Whether a transition covers the client depends on product facts kept in the workspace.
+export const PRODUCT_FACTS_PATH = 'product-facts.json'
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be a YYYY-MM-DD date')
+
+export const PRODUCT_FACTS = [
+  'contract_concluded',
+  'contract_expires',
+  'terminal_deployed',
+  'terminal_end_of_life'
+] as const
+
+export const productFactsSchema = z
+  .object({
+    // When the service contract with the consumer was concluded, and when it expires
+    contract_concluded: isoDate.optional(),
+    contract_expires: isoDate.optional(),
+    // When the self-service terminal was first put into use, and when its economic life ends
+    terminal_deployed: isoDate.optional(),
+    terminal_end_of_life: isoDate.optional()
+  })
+  .strict()
+
+export type ProductFacts = z.infer<typeof productFactsSchema>
+
+export const transitionSchema = z
+  .object({
+    description: z.string(),
+    legal_reference: z.string(),
+    // Covers contracts and products whose `fact` date lies before the requirement applies
+    fact: z.enum(PRODUCT_FACTS),
+    // Ends at the earliest of `until`, `max_years` after the fact date and the `ends_with` date
+    until: isoDate.optional(),
+    max_years: z.number().int().positive().optional(),
+    ends_with: z.enum(PRODUCT_FACTS).optional()
+  })
+  .refine(transition => transition.until || transition.max_years, {
+    message: 'needs until or max_years'
+  })
+
+export type Transition = z.infer<typeof transitionSchema>
+
+export const requirementTimelineSchema = z.object({
+  applies_from: isoDate,
+  // Ids of the dataset's transitions that can postpone this requirement
+  transitions: z.array(z.string()).optional()
+})
+
+export type RequirementTimeline = z.infer<typeof requirementTimelineSchema>
+
+export const OBLIGATION_STATUSES = ['in_force', 'in_transition', 'not_yet_applicable'] as const
+
+export const obligationSchema = z.object({
+  status: z.enum(OBLIGATION_STATUSES),
+  applies_from: isoDate,
+  // in_transition only: when the transitional period ends and the requirement must be met
+  until: isoDate.optional(),
+  transition: z.string().optional(),
+  legal_reference: z.string().optional()
+})
+
+export type Obligation = z.infer<typeof obligationSchema>
+
+export const appliedTimelineSchema = z.object({
+  assessment_date: isoDate,
+  facts: productFactsSchema
+})
+
+export type AppliedTimeline = z.infer<typeof appliedTimelineSchema>
+
+/**
+ * Returns a copy of the regulation data with every requirement that has a timeline classified
+ * on the assessment date: not_yet_applicable before it applies, in_transition while a transition
+ * the product facts qualify for still runs (the latest ending one, when several do) and in_force
+ * otherwise. Requirements from datasets without timelines, or outside the declared scope, are
+ * left as they are.
+ */
+export function applyTimeline(
+  guidelines: EAAGuidelines,
+  assessmentDate: Date,
+  facts: ProductFacts = {}
+): EAAGuidelines {
+  const result: EAAGuidelines = JSON.parse(JSON.stringify(guidelines))
+  const today = toIsoDate(assessmentDate)
+  result.timeline = { assessment_date: today, facts }
+
+  result.requirements.forEach(requirement => {
+    // Out-of-scope requirements have no obligation to date
+    const timeline = requirement.timeline
+    if (!timeline || requirement.status === 'not_applicable') return
+
+    if (today < timeline.applies_from) {
+      requirement.obligation = { status: 'not_yet_applicable', applies_from: timeline.applies_from }
+      return
+    }
+
+    const running = (timeline.transitions || [])
+      .map(id => {
+        const transition = result.transitions?.[id]
+        if (!transition) {
+          throw new Error(
+            `Requirement ${requirement.requirement_id} refers to unknown transition ${id}.`
+          )
+        }
+        return { id, transition, until: transitionEnd(transition, timeline.applies_from, facts) }
+      })
+      .filter(({ until }) => until !== undefined && today < until)
+      .sort((a, b) => (b.until || '').localeCompare(a.until || ''))
+
+    const [latest] = running
+    requirement.obligation = latest
+      ? {
+          status: 'in_transition',
+          applies_from: timeline.applies_from,
+          until: latest.until,
+          transition: latest.id,
+          legal_reference: latest.transition.legal_reference
+        }
+      : { status: 'in_force', applies_from: timeline.applies_from }
+  })
+  return result
+}
+
+// The date a requirement has to be met by: the end of its transition, else when it applies
+export function obligationDeadline(obligation: Obligation): string {
+  return obligation.status === 'in_transition' && obligation.until
+    ? obligation.until
+    : obligation.applies_from
+}
+
+// When the transition stops covering the client, or undefined when it never did
+function transitionEnd(
+  transition: Transition,
+  appliesFrom: string,
+  facts: ProductFacts
+): string | undefined {
+  const since = facts[transition.fact]
+  if (!since || since >= appliesFrom) return undefined
+
+  const ends = [
+    transition.until,
+    transition.max_years ? addYears(since, transition.max_years) : undefined,
+    transition.ends_with ? facts[transition.ends_with] : undefined
+  ].filter((date): date is string => date !== undefined)
+  return ends.sort()[0]
+}
+
+function addYears(date: string, years: number): string {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCFullYear(result.getUTCFullYear() + years)
+  return toIsoDate(result)
+}
@@ -0,0 +1,99 @@
+import { z } from 'zod'
+import { toIsoDate } from './dates'
+import { Issue, issueSchema, normaliseSelector } from './issues'
+
+// Findings a reviewer has accepted, mostly false positives such as color-contrast on decorative
+// text over an image, kept in the workspace. A waiver only covers what it matches and only until
+// it expires.
+export const WAIVERS_PATH = 'waivers.json'
+
+const isoDate = z.string().refine(value => !isNaN(Date.parse(value)), 'must be an ISO 8601 date')
+
+export const waiverSchema = z.object({
+  id: z.string().min(1),
+  audit_id: z.string().min(1),
+  // `*` matches any run of characters; without a pattern every element or page matches
+  selector: z.string().optional(),
+  url: z.string().optional(),
+  reason: z.string().min(1),
+  approved_by: z.string().min(1),
+  expires_at: isoDate
+})
+
+export const waiversFileSchema = z.object({
+  waivers: z.array(waiverSchema)
+})
+
+export type Waiver = z.infer<typeof waiverSchema>
+
+export const waiverResultsSchema = z.object({
+  waived: z.array(issueSchema.extend({ waiver: waiverSchema })),
+  // Expired waivers with the findings they would still match, which count as failing again
+  expired: z.array(waiverSchema.extend({ issues: z.array(z.string()) })),
+  // Waivers that match nothing any more: the finding was fixed or the page changed
+  unmatched: z.array(waiverSchema)
+})
+
+export type WaivedIssue = Issue & { waiver: Waiver }
+export type WaiverResults = z.infer<typeof waiverResultsSchema>
+
+export function partitionWaivers(
+  waivers: Waiver[],
+  assessmentDate: Date = new Date()
+): { active: Waiver[]; expired: Waiver[] } {
+  const ids = waivers.map(waiver => waiver.id)
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index)
+  if (duplicate) {
+    throw new Error(`Waiver ${duplicate} is defined twice.`)
+  }
+
+  // Compared by day: a waiver still covers the whole of the day it expires on
+  const today = toIsoDate(assessmentDate)
+  const expired = (waiver: Waiver) => toIsoDate(new Date(waiver.expires_at)) < today
+  return {
+    active: waivers.filter(waiver => !expired(waiver)),
+    expired: waivers.filter(expired)
+  }
+}
+
+export function findWaiver(waivers: Waiver[], issue: Issue): Waiver | undefined {
+  return waivers.find(waiver => waiverMatches(waiver, issue))
+}
+
+/**
+ * The waiver section of compliance.json: what was waived, and the waivers that need attention
+ * because they expired or no longer match a finding.
+ */
+export function summariseWaivers(
+  active: Waiver[],
+  expired: Waiver[],
+  issues: Issue[],
+  waived: WaivedIssue[]
+): WaiverResults {
+  return {
+    waived,
+    expired: expired.map(waiver => ({
+      ...waiver,
+      issues: issues.filter(issue => waiverMatches(waiver, issue)).map(issue => issue.fingerprint)
+    })),
+    unmatched: active.filter(waiver => !waived.some(issue => issue.waiver.id === waiver.id))
+  }
+}
+
+function waiverMatches(waiver: Waiver, issue: Issue): boolean {
+  return (
+    waiver.audit_id === issue.audit_id &&
+    (!waiver.selector ||
+      wildcard(normaliseSelector(waiver.selector)).test(normaliseSelector(issue.selector))) &&
+    (!waiver.url || wildcard(waiver.url).test(issue.url || ''))
+  )
+}
+
+function wildcard(pattern: string): RegExp {
+  return new RegExp(
+    `^${pattern
+      .split('*')
+      .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')}$`
+  )
+}
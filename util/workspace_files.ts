@@ -0,0 +1,361 @@
+import http from 'http'
+import https from 'https'
+import { z } from 'zod'
+import { formatZodError, parseAuditInput } from './audit_input'
+import {
+  AUDIT_DIRECTORY_GLOB,
+  AUDIT_MANIFEST_PATH,
+  auditManifestSchema,
+  SINGLE_AUDIT_PATH
+} from './site_audit'
+import { MANUAL_REVIEW_PATH, manualReviewFileSchema } from './manual_review'
+import { EXEMPTIONS_PATH, exemptionsFileSchema } from './exemptions'
+import { WAIVERS_PATH, waiversFileSchema } from './waivers'
+import { APPLICABILITY_PATH, applicabilityProfileSchema } from './applicability'
+import { PIPELINE_PATH, PIPELINE_STATE_PATH, pipelineSchema, pipelineStateSchema } from './pipeline'
+import { appliedJurisdictionSchema } from './jurisdiction'
+import { COMPLIANCE_PATH, complianceSchema, REQUIREMENT_STATUSES } from './compliance'
+import { localeSchema } from './i18n'
+import {
+  PRODUCT_FACTS_PATH,
+  productFactsSchema,
+  requirementTimelineSchema,
+  transitionSchema
+} from './timeline'
+
+// Reading and writing workspace files: which file holds which artifact, fetching it safely and
+// validating it before any capability works with it.
+
+export type WorkspaceFile = { path: string; fullUrl: string }
+
+// regulations.json as fetch-regulations writes it
+export const regulationsFileSchema = z
+  .object({
+    directive: z.string(),
+    dataset: z.object({ version: z.string(), content_hash: z.string() }).optional(),
+    mapping_version: z.string().optional(),
+    jurisdiction: appliedJurisdictionSchema.optional(),
+    applicability: applicabilityProfileSchema.optional(),
+    locale: localeSchema.optional(),
+    transitions: z.record(transitionSchema).optional(),
+    requirements: z
+      .array(
+        z
+          .object({
+            requirement_id: z.string(),
+            description: z.string(),
+            category: z.string(),
+            criticality: z.enum(['HIGH', 'MEDIUM', 'LOW']),
+            legal_reference: z.string(),
+            translation: z.object({ description: z.string(), category: z.string() }).optional(),
+            national_reference: z.string().optional(),
+            status: z.enum(REQUIREMENT_STATUSES),
+            exemptible: z.boolean(),
+            applies_to: z
+              .object({ types: z.array(z.string()), channels: z.array(z.string()).optional() })
+              .optional(),
+            timeline: requirementTimelineSchema.optional()
+          })
+          .passthrough()
+      )
+      .min(1)
+  })
+  .passthrough()
+
+type Artifact<T> = {
+  // Names or globs tried in order; the first that matches any file wins
+  patterns: string[]
+  parse: (raw: unknown) => T
+}
+
+function schemaArtifact<T extends z.ZodTypeAny>(
+  patterns: string[],
+  schema: T
+): Artifact<z.infer<T>> {
+  return {
+    patterns,
+    parse: raw => {
+      const parsed = schema.safeParse(raw)
+      if (!parsed.success) {
+        throw new Error(formatZodError(parsed.error))
+      }
+      return parsed.data
+    }
+  }
+}
+
+export const WORKSPACE_ARTIFACTS = {
+  regulations: schemaArtifact(['regulations.json'], regulationsFileSchema),
+  auditManifest: schemaArtifact([AUDIT_MANIFEST_PATH], auditManifestSchema),
+  // One audit per page; a single audit.json is only used when there are none
+  pageAudits: { patterns: [AUDIT_DIRECTORY_GLOB], parse: parseAuditInput },
+  audit: { patterns: [SINGLE_AUDIT_PATH], parse: parseAuditInput },
+  // run-comparison's output, read back by the steps after it
+  compliance: schemaArtifact([COMPLIANCE_PATH], complianceSchema),
+  manualReview: schemaArtifact([MANUAL_REVIEW_PATH], manualReviewFileSchema),
+  exemptions: schemaArtifact([EXEMPTIONS_PATH], exemptionsFileSchema),
+  waivers: schemaArtifact([WAIVERS_PATH], waiversFileSchema),
+  applicability: schemaArtifact([APPLICABILITY_PATH], applicabilityProfileSchema),
+  productFacts: schemaArtifact([PRODUCT_FACTS_PATH], productFactsSchema),
+  pipeline: schemaArtifact([PIPELINE_PATH], pipelineSchema),
+  pipelineState: schemaArtifact([PIPELINE_STATE_PATH], pipelineStateSchema)
+}
+
+export type ArtifactName = keyof typeof WORKSPACE_ARTIFACTS
+type ArtifactContent<N extends ArtifactName> = ReturnType<(typeof WORKSPACE_ARTIFACTS)[N]['parse']>
+
+const ARTIFACT_NAMES = Object.keys(WORKSPACE_ARTIFACTS) as [ArtifactName, ...ArtifactName[]]
+
+// Other names or globs for an artifact, e.g. { regulations: ['eaa/regulations-*.json'] }
+export const artifactPatternsSchema = z.record(
+  z.enum(ARTIFACT_NAMES),
+  z.array(z.string().min(1)).min(1)
+)
+
+export type ArtifactPatterns = z.infer<typeof artifactPatternsSchema>
+
+export type FetchOptions = {
+  timeoutMs: number
+  // Further attempts after a timeout, a network error or a 429/5xx response
+  retries: number
+  // Doubled after every attempt
+  retryDelayMs: number
+  maxBytes: number
+}
+
+export const DEFAULT_FETCH_OPTIONS: FetchOptions = {
+  timeoutMs: 15_000,
+  retries: 2,
+  retryDelayMs: 500,
+  maxBytes: 25 * 1024 * 1024
+}
+
+// Storage serves JSON (and XML audits) under any of these; anything else (an HTML error page) is
+// not the file
+const CONTENT_TYPES = [
+  'application/json',
+  'text/plain',
+  'application/octet-stream',
+  'application/xml',
+  'text/xml'
+]
+
+const MAX_REDIRECTS = 5
+
+/**
+ * The workspace files holding an artifact, for the first of its patterns that matches anything.
+ */
+export function findArtifactFiles(
+  files: WorkspaceFile[],
+  name: ArtifactName,
+  patterns: ArtifactPatterns = {}
+): WorkspaceFile[] {
+  for (const pattern of patterns[name] || WORKSPACE_ARTIFACTS[name].patterns) {
+    const matcher = globToRegExp(pattern)
+    const matches = files.filter(file => matcher.test(file.path))
+    if (matches.length > 0) {
+      return matches.sort((a, b) => a.path.localeCompare(b.path))
+    }
+  }
+  return []
+}
+
+// Fetches and validates one file as the given artifact
+export async function readArtifactFile<N extends ArtifactName>(
+  file: WorkspaceFile,
+  name: N,
+  options: Partial<FetchOptions> = {}
+): Promise<ArtifactContent<N>> {
+  return parseArtifactFile(file, name, await fetchWorkspaceJson(file, options))
+}
+
+// Validates content already fetched from a file, for callers that also keep it as received
+export function parseArtifactFile<N extends ArtifactName>(
+  file: WorkspaceFile,
+  name: N,
+  raw: unknown
+): ArtifactContent<N> {
+  try {
+    return WORKSPACE_ARTIFACTS[name].parse(raw) as ArtifactContent<N>
+  } catch (error) {
+    throw new Error(
+      `Invalid ${file.path}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+// The artifact from the first matching file, or undefined when the workspace has none
+export async function readArtifact<N extends ArtifactName>(
+  files: WorkspaceFile[],
+  name: N,
+  patterns: ArtifactPatterns = {},
+  options: Partial<FetchOptions> = {}
+): Promise<ArtifactContent<N> | undefined> {
+  const [file] = findArtifactFiles(files, name, patterns)
+  return file ? readArtifactFile(file, name, options) : undefined
+}
+
+export async function requireArtifact<N extends ArtifactName>(
+  files: WorkspaceFile[],
+  name: N,
+  patterns: ArtifactPatterns = {},
+  options: Partial<FetchOptions> = {}
+): Promise<ArtifactContent<N>> {
+  const content = await readArtifact(files, name, patterns, options)
+  if (content === undefined) {
+    const tried = (patterns[name] || WORKSPACE_ARTIFACTS[name].patterns).join(', ')
+    throw new Error(`Required file ${tried} not found in workspace.`)
+  }
+  return content
+}
+
+// Downloads a workspace file and parses it as JSON
+export async function fetchWorkspaceJson(
+  file: WorkspaceFile,
+  options: Partial<FetchOptions> = {}
+): Promise<unknown> {
+  const body = await fetchWorkspaceText(file, options)
+  try {
+    return JSON.parse(body)
+  } catch (error) {
+    throw new Error(
+      `${file.path} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+/**
+ * Downloads a workspace file as text. Timeouts, network errors and 429/5xx responses are retried
+ * with exponential backoff; other failures are reported straight away. Errors name the workspace
+ * path, not the signed URL.
+ */
+export async function fetchWorkspaceText(
+  file: WorkspaceFile,
+  options: Partial<FetchOptions> = {}
+): Promise<string> {
+  const settings = { ...DEFAULT_FETCH_OPTIONS, ...options }
+
+  for (let attempt = 1; ; attempt++) {
+    const result = await fetchOnce(file.fullUrl, settings, MAX_REDIRECTS)
+    if (result.ok) return result.body
+    if (!result.retryable || attempt > settings.retries) {
+      const attempts = attempt > 1 ? ` after ${attempt} attempts` : ''
+      throw new Error(`Failed to fetch ${file.path}${attempts}: ${result.error}`)
+    }
+    console.warn(`Fetching ${file.path} failed (${result.error}); retrying`)
+    await new Promise(resolve => setTimeout(resolve, settings.retryDelayMs * 2 ** (attempt - 1)))
+  }
+}
+
+type FetchResult = { ok: true; body: string } | { ok: false; error: string; retryable: boolean }
+
+function fetchOnce(url: string, settings: FetchOptions, redirects: number): Promise<FetchResult> {
+  return new Promise(resolve => {
+    const client = url.startsWith('https:') ? https : http
+    const request = client.get(url, { timeout: settings.timeoutMs }, response => {
+      const status = response.statusCode || 0
+      const fail = (error: string, retryable: boolean) => {
+        response.resume()
+        resolve({ ok: false, error, retryable })
+      }
+
+      if (status >= 300 && status < 400 && response.headers.location) {
+        if (redirects === 0) return fail('too many redirects', false)
+        response.resume()
+        const target = new URL(response.headers.location, url).toString()
+        fetchOnce(target, settings, redirects - 1).then(resolve)
+        return
+      }
+      if (status !== 200) {
+        return fail(`HTTP ${status}`, status === 429 || status >= 500)
+      }
+
+      const contentType = (response.headers['content-type'] || '').split(';')[0].trim()
+      if (contentType && !CONTENT_TYPES.includes(contentType)) {
+        return fail(`unexpected content type ${contentType}`, false)
+      }
+      const length = Number(response.headers['content-length'])
+      if (length > settings.maxBytes) {
+        return fail(`${length} bytes exceeds the limit of ${settings.maxBytes}`, false)
+      }
+
+      const chunks: Buffer[] = []
+      let received = 0
+      response.on('data', (chunk: Buffer) => {
+        received += chunk.length
+        if (received > settings.maxBytes) {
+          request.destroy()
+          resolve({
+            ok: false,
+            error: `more than ${settings.maxBytes} bytes exceeds the limit`,
+            retryable: false
+          })
+          return
+        }
+        chunks.push(chunk)
+      })
+      response.on('end', () => resolve({ ok: true, body: Buffer.concat(chunks).toString('utf8') }))
+      response.on('error', error => resolve({ ok: false, error: error.message, retryable: true }))
+    })
+    request.on('timeout', () => {
+      request.destroy()
+      resolve({ ok: false, error: `timed out after ${settings.timeoutMs} ms`, retryable: true })
+    })
+    request.on('error', error => resolve({ ok: false, error: error.message, retryable: true }))
+  })
+}
+
+export type FileUploader = (params: {
+  workspaceId: string | number
+  path: string
+  file: Buffer | string
+  skipSummarizer: boolean
+  taskIds?: string | number
+}) => Promise<unknown>
+
+/**
+ * Writes an output to the workspace: strings (rendered reports) and buffers (archives) as they
+ * are, anything else as JSON. Linked to the task that produced it, when there is one.
+ */
+export async function uploadWorkspaceFile(
+  upload: FileUploader,
+  params: { workspaceId: string | number; path: string; content: unknown; taskId?: string | number }
+): Promise<void> {
+  const file =
+    typeof params.content === 'string' || Buffer.isBuffer(params.content)
+      ? params.content
+      : JSON.stringify(params.content)
+  try {
+    await upload({
+      workspaceId: params.workspaceId,
+      path: params.path,
+      file,
+      skipSummarizer: true,
+      taskIds: params.taskId
+    })
+  } catch (error) {
+    throw new Error(
+      `Failed to upload ${params.path}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+// `*` and `?` stay within one directory, `**` crosses directories
+function globToRegExp(pattern: string): RegExp {
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/'
+      source += slash ? '(?:.*/)?' : '.*'
+      i += slash ? 2 : 1
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}